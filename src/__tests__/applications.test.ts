@@ -0,0 +1,184 @@
+import request from 'supertest';
+import mongoose from 'mongoose';
+import app from '../index';
+import { connectDatabase, disconnectDatabase } from '../config/database';
+import Application from '../models/Application';
+import filteredJobService, { IFilteredJob } from '../models/FilteredJob';
+import { loginTestUser, resetTestUsers, restoreTestUsers } from './helpers/testUsers';
+
+/**
+ * Application Tracker API Integration Tests
+ */
+describe('Application API', () => {
+  const userEmail = 'applicant@example.com';
+
+  const job = {
+    _id: new mongoose.Types.ObjectId(),
+    job_title: 'Data Engineer',
+    company_name_normalized: 'Acme',
+    job_location: 'Melbourne VIC',
+    platform: 'linkedin',
+    apply_link: 'https://example.com/apply',
+    date: '2026-10-01',
+    analysis: { match_score: 75 },
+  } as unknown as IFilteredJob;
+
+  const externalJob = { title: 'Platform Engineer', company: 'Globex' };
+
+  let getJobByIdSpy: jest.SpyInstance;
+  let authToken: string;
+
+  const createApplication = (body: object, token = authToken) =>
+    request(app).post('/api/applications').set('Authorization', `Bearer ${token}`).send(body);
+
+  beforeAll(async () => {
+    await connectDatabase();
+  }, 30000);
+
+  afterAll(async () => {
+    await disconnectDatabase();
+  }, 30000);
+
+  beforeEach(async () => {
+    await resetTestUsers();
+    await Application.deleteMany({});
+
+    getJobByIdSpy = jest
+      .spyOn(filteredJobService, 'getJobById')
+      .mockImplementation(async id => (id === job._id.toString() ? { ...job } : null));
+
+    authToken = await loginTestUser(userEmail);
+  });
+
+  afterEach(() => {
+    restoreTestUsers();
+    getJobByIdSpy.mockRestore();
+  });
+
+  it('should require authentication', async () => {
+    const response = await request(app).get('/api/applications');
+    expect(response.status).toBe(401);
+  });
+
+  it('should track listed and external jobs', async () => {
+    const listed = await createApplication({ jobId: job._id.toString(), status: 'applied' });
+    expect(listed.status).toBe(201);
+    expect(listed.body.data.application).toMatchObject({
+      jobId: job._id.toString(),
+      job: { job_title: 'Data Engineer', company_name_normalized: 'Acme' },
+      status: 'applied',
+      statusHistory: [{ status: 'applied' }],
+    });
+
+    const external = await createApplication({
+      job: externalJob,
+      contacts: [{ name: 'Sam Lee', role: 'Recruiter', email: 'sam@globex.example' }],
+    });
+    expect(external.status).toBe(201);
+    expect(external.body.data.application).toMatchObject({
+      job: { job_title: 'Platform Engineer', company_name_normalized: 'Globex' },
+      status: 'saved',
+      contacts: [{ name: 'Sam Lee', role: 'Recruiter' }],
+    });
+    expect(external.body.data.application).not.toHaveProperty('jobId');
+  });
+
+  it('should require exactly one of jobId and job', async () => {
+    const neither = await createApplication({ notes: 'Hmm' });
+    expect(neither.status).toBe(400);
+
+    const both = await createApplication({ jobId: job._id.toString(), job: externalJob });
+    expect(both.status).toBe(400);
+  });
+
+  it('should return 404 for unknown listed jobs', async () => {
+    const response = await createApplication({ jobId: new mongoose.Types.ObjectId().toString() });
+    expect(response.status).toBe(404);
+  });
+
+  it('should not track the same listed job twice', async () => {
+    await createApplication({ jobId: job._id.toString() });
+
+    const response = await createApplication({ jobId: job._id.toString() });
+    expect(response.status).toBe(409);
+    expect(response.body.error.code).toBe('APPLICATION_EXISTS');
+  });
+
+  it('should record status changes and clear fields with null', async () => {
+    const created = await createApplication({
+      job: externalJob,
+      nextAction: 'Follow up',
+      nextActionDate: '2026-11-01',
+    });
+    const id = created.body.data.application.id;
+
+    const updated = await request(app)
+      .patch(`/api/applications/${id}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ status: 'interview', notes: 'Panel on Tuesday', nextAction: null });
+    expect(updated.status).toBe(200);
+    expect(updated.body.data.application).toMatchObject({
+      status: 'interview',
+      notes: 'Panel on Tuesday',
+    });
+    expect(updated.body.data.application).not.toHaveProperty('nextAction');
+    expect(updated.body.data.application.nextActionDate).toBe('2026-11-01T00:00:00.000Z');
+    expect(
+      updated.body.data.application.statusHistory.map((change: { status: string }) => change.status)
+    ).toEqual(['saved', 'interview']);
+
+    // Setting the same status again adds no history entry
+    const unchanged = await request(app)
+      .patch(`/api/applications/${id}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ status: 'interview' });
+    expect(unchanged.body.data.application.statusHistory).toHaveLength(2);
+  });
+
+  it('should list by status and summarise counts per status', async () => {
+    await createApplication({ jobId: job._id.toString(), status: 'applied' });
+    await createApplication({ job: externalJob, status: 'applied' });
+    await createApplication({ job: externalJob, status: 'offer' });
+
+    const list = await request(app)
+      .get('/api/applications?status=offer,rejected')
+      .set('Authorization', `Bearer ${authToken}`);
+    expect(list.status).toBe(200);
+    expect(list.body.data.total).toBe(1);
+    expect(list.body.data.applications[0].status).toBe('offer');
+
+    const summary = await request(app)
+      .get('/api/applications/summary')
+      .set('Authorization', `Bearer ${authToken}`);
+    expect(summary.status).toBe(200);
+    expect(summary.body.data).toEqual({
+      counts: {
+        saved: 0,
+        applied: 2,
+        screening: 0,
+        interview: 0,
+        offer: 1,
+        rejected: 0,
+        withdrawn: 0,
+      },
+      total: 3,
+    });
+  });
+
+  it('should keep applications private to their owner', async () => {
+    const created = await createApplication({ job: externalJob });
+    const id = created.body.data.application.id;
+    const otherToken = await loginTestUser('other@example.com');
+
+    const response = await request(app)
+      .get(`/api/applications/${id}`)
+      .set('Authorization', `Bearer ${otherToken}`);
+    expect(response.status).toBe(404);
+
+    const deleted = await request(app)
+      .delete(`/api/applications/${id}`)
+      .set('Authorization', `Bearer ${otherToken}`);
+    expect(deleted.status).toBe(404);
+    expect(await Application.countDocuments()).toBe(1);
+  });
+});
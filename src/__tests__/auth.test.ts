@@ -2,11 +2,26 @@ import request from 'supertest';
 import app from '../index';
 import { connectDatabase, disconnectDatabase } from '../config/database';
 import User from '../models/User';
+import RefreshToken from '../models/RefreshToken';
+import Session from '../models/Session';
+import AuthAttempt from '../models/AuthAttempt';
+import AuthEvent from '../models/AuthEvent';
+import ApiKey from '../models/ApiKey';
+import EmailService from '../services/EmailService';
+import { totp } from '../utils/totp';
 
 /**
  * Auth API Integration Tests
  */
 describe('Auth API', () => {
+  let sendVerificationSpy: jest.SpyInstance;
+
+  // Codes are only stored hashed, so tests read them from the mocked email
+  const lastVerificationCode = (): string => {
+    const calls = sendVerificationSpy.mock.calls;
+    return calls[calls.length - 1][1];
+  };
+
   beforeAll(async () => {
     await connectDatabase();
   }, 30000);
@@ -18,6 +33,19 @@ describe('Auth API', () => {
   beforeEach(async () => {
     // Clean up users collection before each test
     await User.deleteMany({});
+    await RefreshToken.deleteMany({});
+    await Session.deleteMany({});
+    await AuthAttempt.deleteMany({});
+    await AuthEvent.deleteMany({});
+    await ApiKey.deleteMany({});
+
+    sendVerificationSpy = jest
+      .spyOn(EmailService, 'sendVerificationEmail')
+      .mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    sendVerificationSpy.mockRestore();
   });
 
   describe('POST /api/auth/register', () => {
@@ -112,15 +140,12 @@ describe('Auth API', () => {
         .post('/api/auth/register')
         .send(validUser);
 
-      // Get the user with verification code
-      const user = await User.findOne({ email: validUser.email })
-        .select('+verificationCode');
-
+      // Use the code sent in the verification email
       const response = await request(app)
         .post('/api/auth/verify-email')
         .send({
           email: validUser.email,
-          code: user?.verificationCode,
+          code: lastVerificationCode(),
         });
 
       expect(response.status).toBe(200);
@@ -128,6 +153,16 @@ describe('Auth API', () => {
       expect(response.body.data.user).toHaveProperty('emailVerified', true);
     });
 
+    it('should store only a hash of the verification code', async () => {
+      await request(app).post('/api/auth/register').send(validUser);
+
+      const user = await User.findOne({ email: validUser.email })
+        .select('+verificationCode');
+      expect(user?.verificationCode).toBeDefined();
+      expect(user?.verificationCode).not.toBe(lastVerificationCode());
+      expect(user?.verificationCode).toHaveLength(64); // HMAC-SHA256 hex digest
+    });
+
     it('should return error for invalid code', async () => {
       await request(app).post('/api/auth/register').send(validUser);
 
@@ -179,13 +214,11 @@ describe('Auth API', () => {
     beforeEach(async () => {
       // Register and verify user
       await request(app).post('/api/auth/register').send(validUser);
-      const user = await User.findOne({ email: validUser.email })
-        .select('+verificationCode');
       await request(app)
         .post('/api/auth/verify-email')
         .send({
           email: validUser.email,
-          code: user?.verificationCode,
+          code: lastVerificationCode(),
         });
     });
 
@@ -271,13 +304,11 @@ describe('Auth API', () => {
     beforeEach(async () => {
       // Register, verify, and login
       await request(app).post('/api/auth/register').send(validUser);
-      const user = await User.findOne({ email: validUser.email })
-        .select('+verificationCode');
       await request(app)
         .post('/api/auth/verify-email')
         .send({
           email: validUser.email,
-          code: user?.verificationCode,
+          code: lastVerificationCode(),
         });
 
       const loginResponse = await request(app)
@@ -326,91 +357,1262 @@ describe('Auth API', () => {
     });
   });
 
-  describe('POST /api/auth/logout', () => {
-    it('should return success message for logout', async () => {
+  describe('POST /api/auth/refresh', () => {
+    const validUser = {
+      email: 'test@example.com',
+      password: 'Password123!',
+    };
+
+    let refreshToken: string;
+
+    beforeEach(async () => {
+      await request(app).post('/api/auth/register').send(validUser);
+      await request(app)
+        .post('/api/auth/verify-email')
+        .send({
+          email: validUser.email,
+          code: lastVerificationCode(),
+        });
+
+      const loginResponse = await request(app)
+        .post('/api/auth/login')
+        .send(validUser);
+      refreshToken = loginResponse.body.data.refreshToken;
+    });
+
+    it('should issue a new token pair for a valid refresh token', async () => {
       const response = await request(app)
-        .post('/api/auth/logout');
+        .post('/api/auth/refresh')
+        .send({ refreshToken });
 
       expect(response.status).toBe(200);
       expect(response.body).toHaveProperty('success', true);
-      expect(response.body.data).toHaveProperty('message');
+      expect(response.body.data).toHaveProperty('token');
+      expect(response.body.data).toHaveProperty('refreshToken');
+      expect(response.body.data.refreshToken).not.toBe(refreshToken);
+    });
+
+    it('should not store refresh tokens in plain text', async () => {
+      const stored = await RefreshToken.findOne({});
+      expect(stored).toBeTruthy();
+      expect(stored?.tokenHash).not.toBe(refreshToken);
+    });
+
+    it('should revoke the token family when a rotated token is reused', async () => {
+      const first = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken });
+      const rotatedToken = first.body.data.refreshToken;
+
+      // Replay the original token
+      const reuse = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken });
+
+      expect(reuse.status).toBe(401);
+      expect(reuse.body.error).toHaveProperty('code', 'REFRESH_TOKEN_REUSED');
+
+      // The legitimately rotated token is revoked as well
+      const response = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken: rotatedToken });
+
+      expect(response.status).toBe(401);
+      expect(response.body.error).toHaveProperty('code', 'INVALID_REFRESH_TOKEN');
+    });
+
+    it('should return error for an unknown refresh token', async () => {
+      const response = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken: 'not-a-real-token' });
+
+      expect(response.status).toBe(401);
+      expect(response.body.error).toHaveProperty('code', 'INVALID_REFRESH_TOKEN');
+    });
+
+    it('should not accept a refresh token after logout', async () => {
+      await request(app)
+        .post('/api/auth/logout')
+        .send({ refreshToken });
+
+      const response = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken });
+
+      expect(response.status).toBe(401);
+      expect(response.body.error).toHaveProperty('code', 'INVALID_REFRESH_TOKEN');
     });
   });
 
-  describe('POST /api/auth/resend-verification', () => {
+  describe('Sessions', () => {
     const validUser = {
       email: 'test@example.com',
       password: 'Password123!',
     };
 
-    it('should resend verification code', async () => {
+    const login = async (userAgent: string) => {
+      const response = await request(app)
+        .post('/api/auth/login')
+        .set('User-Agent', userAgent)
+        .send(validUser);
+      return response.body.data as { token: string; refreshToken: string };
+    };
+
+    beforeEach(async () => {
       await request(app).post('/api/auth/register').send(validUser);
+      await request(app)
+        .post('/api/auth/verify-email')
+        .send({
+          email: validUser.email,
+          code: lastVerificationCode(),
+        });
+    });
+
+    it('should list active sessions with the current one marked', async () => {
+      await login('lab-machine');
+      const { token } = await login('laptop');
 
       const response = await request(app)
-        .post('/api/auth/resend-verification')
-        .send({ email: validUser.email });
+        .get('/api/auth/sessions')
+        .set('Authorization', `Bearer ${token}`);
 
       expect(response.status).toBe(200);
-      expect(response.body).toHaveProperty('success', true);
-      expect(response.body.data).toHaveProperty('message');
+      expect(response.body.data.sessions).toHaveLength(2);
+
+      const current = response.body.data.sessions.find((s: any) => s.current);
+      expect(current).toHaveProperty('userAgent', 'laptop');
+      expect(current).toHaveProperty('lastSeenAt');
+      expect(current).toHaveProperty('createdAt');
     });
 
-    it('should return error for already verified email', async () => {
+    it('should reject access tokens of a revoked session', async () => {
+      const labMachine = await login('lab-machine');
+      const { token } = await login('laptop');
+
+      const sessions = await request(app)
+        .get('/api/auth/sessions')
+        .set('Authorization', `Bearer ${token}`);
+      const labSession = sessions.body.data.sessions.find((s: any) => !s.current);
+
+      const response = await request(app)
+        .delete(`/api/auth/sessions/${labSession.id}`)
+        .set('Authorization', `Bearer ${token}`);
+      expect(response.status).toBe(200);
+
+      const meResponse = await request(app)
+        .get('/api/auth/me')
+        .set('Authorization', `Bearer ${labMachine.token}`);
+      expect(meResponse.status).toBe(401);
+
+      const refreshResponse = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken: labMachine.refreshToken });
+      expect(refreshResponse.status).toBe(401);
+    });
+
+    it('should sign out everywhere except the current session', async () => {
+      const labMachine = await login('lab-machine');
+      const library = await login('library');
+      const { token } = await login('laptop');
+
+      const response = await request(app)
+        .delete('/api/auth/sessions')
+        .set('Authorization', `Bearer ${token}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toHaveProperty('revoked', 2);
+
+      for (const other of [labMachine, library]) {
+        const meResponse = await request(app)
+          .get('/api/auth/me')
+          .set('Authorization', `Bearer ${other.token}`);
+        expect(meResponse.status).toBe(401);
+      }
+
+      const meResponse = await request(app)
+        .get('/api/auth/me')
+        .set('Authorization', `Bearer ${token}`);
+      expect(meResponse.status).toBe(200);
+    });
+
+    it('should return 404 for a session of another user', async () => {
+      const { token } = await login('laptop');
+
+      const response = await request(app)
+        .delete('/api/auth/sessions/507f1f77bcf86cd799439011')
+        .set('Authorization', `Bearer ${token}`);
+
+      expect(response.status).toBe(404);
+      expect(response.body.error).toHaveProperty('code', 'SESSION_NOT_FOUND');
+    });
+  });
+
+  describe('PATCH /api/auth/me/profile', () => {
+    const validUser = {
+      email: 'test@example.com',
+      password: 'Password123!',
+    };
+
+    let authToken: string;
+
+    beforeEach(async () => {
       await request(app).post('/api/auth/register').send(validUser);
-      const user = await User.findOne({ email: validUser.email })
-        .select('+verificationCode');
       await request(app)
         .post('/api/auth/verify-email')
         .send({
           email: validUser.email,
-          code: user?.verificationCode,
+          code: lastVerificationCode(),
+        });
+
+      const loginResponse = await request(app)
+        .post('/api/auth/login')
+        .send(validUser);
+      authToken = loginResponse.body.data.token;
+    });
+
+    it('should update profile fields', async () => {
+      const response = await request(app)
+        .patch('/api/auth/me/profile')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({
+          name: 'Jane Doe',
+          visaType: '491',
+          visaExpiry: '2028-06-30',
+          linkedInUrl: 'https://www.linkedin.com/in/jane-doe',
+          preferredLocation: ['Adelaide', 'Hobart'],
         });
 
+      expect(response.status).toBe(200);
+      expect(response.body.data.user.profile).toMatchObject({
+        name: 'Jane Doe',
+        visaType: '491',
+        linkedInUrl: 'https://www.linkedin.com/in/jane-doe',
+        preferredLocation: ['Adelaide', 'Hobart'],
+      });
+
+      const profileResponse = await request(app)
+        .get('/api/auth/me/profile')
+        .set('Authorization', `Bearer ${authToken}`);
+      expect(profileResponse.body.data.user.profile).toHaveProperty('name', 'Jane Doe');
+    });
+
+    it('should clear a field set to null', async () => {
+      await request(app)
+        .patch('/api/auth/me/profile')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ name: 'Jane Doe' });
+
       const response = await request(app)
-        .post('/api/auth/resend-verification')
-        .send({ email: validUser.email });
+        .patch('/api/auth/me/profile')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ name: null });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.user.profile).not.toHaveProperty('name');
+    });
+
+    it('should validate visa type and LinkedIn URL', async () => {
+      const response = await request(app)
+        .patch('/api/auth/me/profile')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({
+          visaType: 'tourist',
+          linkedInUrl: 'https://example.com/jane',
+        });
 
       expect(response.status).toBe(400);
-      expect(response.body).toHaveProperty('success', false);
-      expect(response.body.error).toHaveProperty('code', 'EMAIL_ALREADY_VERIFIED');
+      expect(response.body.error).toHaveProperty('code', 'VALIDATION_ERROR');
     });
 
-    it('should return error for non-existent user', async () => {
+    it('should not allow resume fields to be written', async () => {
       const response = await request(app)
-        .post('/api/auth/resend-verification')
-        .send({ email: 'nonexistent@example.com' });
+        .patch('/api/auth/me/profile')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ resumeId: '507f1f77bcf86cd799439011' });
 
       expect(response.status).toBe(400);
-      expect(response.body).toHaveProperty('success', false);
-      expect(response.body.error).toHaveProperty('code', 'USER_NOT_FOUND');
+      expect(response.body.error).toHaveProperty('code', 'VALIDATION_ERROR');
     });
   });
 
-  describe('Auth Flow Integration Test', () => {
-    it('should complete full auth flow: register -> verify -> login -> get profile', async () => {
-      const userData = {
-        email: 'flowtest@example.com',
-        password: 'Password123!',
-      };
+  describe('Email change', () => {
+    const validUser = {
+      email: 'test@example.com',
+      password: 'Password123!',
+    };
+    const newEmail = 'graduate@example.com';
 
-      // Step 1: Register
-      const registerResponse = await request(app)
-        .post('/api/auth/register')
-        .send(userData);
+    let authToken: string;
+    let sendCodeSpy: jest.SpyInstance;
+    let sendNoticeSpy: jest.SpyInstance;
 
-      expect(registerResponse.status).toBe(201);
-      expect(registerResponse.body.data.user.emailVerified).toBe(false);
+    beforeEach(async () => {
+      sendCodeSpy = jest
+        .spyOn(EmailService, 'sendEmailChangeCode')
+        .mockResolvedValue(undefined);
+      sendNoticeSpy = jest
+        .spyOn(EmailService, 'sendEmailChangedNotice')
+        .mockResolvedValue(undefined);
+
+      await request(app).post('/api/auth/register').send(validUser);
+      await request(app)
+        .post('/api/auth/verify-email')
+        .send({
+          email: validUser.email,
+          code: lastVerificationCode(),
+        });
+
+      const loginResponse = await request(app)
+        .post('/api/auth/login')
+        .send(validUser);
+      authToken = loginResponse.body.data.token;
+    });
 
-      // Step 2: Get verification code from DB (in real flow, user gets email)
-      const user = await User.findOne({ email: userData.email })
+    afterEach(() => {
+      sendCodeSpy.mockRestore();
+      sendNoticeSpy.mockRestore();
+    });
+
+    it('should change the email after confirming the code', async () => {
+      const response = await request(app)
+        .post('/api/auth/me/email')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ newEmail, password: validUser.password });
+
+      expect(response.status).toBe(200);
+      expect(sendCodeSpy).toHaveBeenCalledWith(newEmail, expect.any(String));
+
+      // Old address stays active until confirmation
+      const pending = await User.findOne({ email: validUser.email });
+      expect(pending).toBeTruthy();
+
+      const code = sendCodeSpy.mock.calls[0][1];
+      const confirmResponse = await request(app)
+        .post('/api/auth/me/email/confirm')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ code });
+
+      expect(confirmResponse.status).toBe(200);
+      expect(confirmResponse.body.data.user).toHaveProperty('email', newEmail);
+      expect(sendNoticeSpy).toHaveBeenCalledWith(validUser.email, newEmail);
+    });
+
+    it('should not clobber a pending signup code', async () => {
+      await User.updateOne(
+        { email: validUser.email },
+        { verificationCode: '123456', verificationCodeExpires: new Date(Date.now() + 60000) }
+      );
+
+      await request(app)
+        .post('/api/auth/me/email')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ newEmail, password: validUser.password });
+
+      const user = await User.findOne({ email: validUser.email })
         .select('+verificationCode');
+      expect(user?.verificationCode).toBe('123456');
+    });
+
+    it('should reject an address that is already taken', async () => {
+      await request(app)
+        .post('/api/auth/register')
+        .send({ email: newEmail, password: 'Password123!' });
+
+      const response = await request(app)
+        .post('/api/auth/me/email')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ newEmail, password: validUser.password });
+
+      expect(response.status).toBe(409);
+      expect(response.body.error).toHaveProperty('code', 'EMAIL_ALREADY_EXISTS');
+    });
+
+    it('should require the current password', async () => {
+      const response = await request(app)
+        .post('/api/auth/me/email')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ newEmail, password: 'wrongpassword' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toHaveProperty('code', 'INVALID_CREDENTIALS');
+      expect(sendCodeSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Account deletion and export', () => {
+    const validUser = {
+      email: 'test@example.com',
+      password: 'Password123!',
+    };
+
+    let authToken: string;
+
+    beforeEach(async () => {
+      await request(app).post('/api/auth/register').send(validUser);
+      await request(app)
+        .post('/api/auth/verify-email')
+        .send({
+          email: validUser.email,
+          code: lastVerificationCode(),
+        });
+
+      const loginResponse = await request(app)
+        .post('/api/auth/login')
+        .send(validUser);
+      authToken = loginResponse.body.data.token;
+    });
+
+    it('should export personal data as a JSON bundle', async () => {
+      const response = await request(app)
+        .get('/api/auth/me/export')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-disposition']).toContain('attachment');
+      expect(response.body.data.user).toHaveProperty('email', validUser.email);
+      expect(response.body.data.sessions).toHaveLength(1);
+      expect(response.body.data).toHaveProperty('resumes');
+      expect(response.body.data).toHaveProperty('resumeAnalyses');
+    });
+
+    it('should require the password to delete the account', async () => {
+      const response = await request(app)
+        .delete('/api/auth/me')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ password: 'wrongpassword' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toHaveProperty('code', 'INVALID_CREDENTIALS');
+    });
+
+    it('should schedule deletion and sign out all sessions', async () => {
+      const response = await request(app)
+        .delete('/api/auth/me')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ password: validUser.password });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toHaveProperty('deleted', false);
+      expect(response.body.data).toHaveProperty('deletionScheduledFor');
+
+      const meResponse = await request(app)
+        .get('/api/auth/me')
+        .set('Authorization', `Bearer ${authToken}`);
+      expect(meResponse.status).toBe(401);
+    });
+
+    it('should cancel a scheduled deletion on login', async () => {
+      await request(app)
+        .delete('/api/auth/me')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ password: validUser.password });
+
+      const loginResponse = await request(app)
+        .post('/api/auth/login')
+        .send(validUser);
+
+      expect(loginResponse.status).toBe(200);
+      expect(loginResponse.body.data.user.deletionScheduledFor).toBeUndefined();
+
+      const user = await User.findOne({ email: validUser.email });
+      expect(user?.deletionScheduledFor).toBeUndefined();
+    });
+
+    it('should delete the account immediately without a grace period', async () => {
+      process.env.ACCOUNT_DELETION_GRACE_DAYS = '0';
+
+      try {
+        const response = await request(app)
+          .delete('/api/auth/me')
+          .set('Authorization', `Bearer ${authToken}`)
+          .send({ password: validUser.password });
+
+        expect(response.status).toBe(200);
+        expect(response.body.data).toHaveProperty('deleted', true);
+        expect(await User.findOne({ email: validUser.email })).toBeNull();
+        expect(await Session.countDocuments({})).toBe(0);
+      } finally {
+        delete process.env.ACCOUNT_DELETION_GRACE_DAYS;
+      }
+    });
+  });
+
+  describe('POST /api/auth/logout', () => {
+    it('should return success message for logout', async () => {
+      const response = await request(app)
+        .post('/api/auth/logout');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toHaveProperty('success', true);
+      expect(response.body.data).toHaveProperty('message');
+    });
+  });
+
+  describe('POST /api/auth/resend-verification', () => {
+    const validUser = {
+      email: 'test@example.com',
+      password: 'Password123!',
+    };
+
+    it('should resend verification code', async () => {
+      await request(app).post('/api/auth/register').send(validUser);
+
+      const response = await request(app)
+        .post('/api/auth/resend-verification')
+        .send({ email: validUser.email });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toHaveProperty('success', true);
+      expect(response.body.data).toHaveProperty('message');
+    });
+
+    it('should return error for already verified email', async () => {
+      await request(app).post('/api/auth/register').send(validUser);
+      await request(app)
+        .post('/api/auth/verify-email')
+        .send({
+          email: validUser.email,
+          code: lastVerificationCode(),
+        });
+
+      const response = await request(app)
+        .post('/api/auth/resend-verification')
+        .send({ email: validUser.email });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toHaveProperty('success', false);
+      expect(response.body.error).toHaveProperty('code', 'EMAIL_ALREADY_VERIFIED');
+    });
+
+    it('should return error for non-existent user', async () => {
+      const response = await request(app)
+        .post('/api/auth/resend-verification')
+        .send({ email: 'nonexistent@example.com' });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toHaveProperty('success', false);
+      expect(response.body.error).toHaveProperty('code', 'USER_NOT_FOUND');
+    });
+  });
+
+  describe('Password reset', () => {
+    const validUser = {
+      email: 'test@example.com',
+      password: 'Password123!',
+    };
+    const newPassword = 'NewPassword456!';
+
+    let authToken: string;
+    let sendResetSpy: jest.SpyInstance;
+
+    beforeEach(async () => {
+      sendResetSpy = jest
+        .spyOn(EmailService, 'sendPasswordResetEmail')
+        .mockResolvedValue(undefined);
+
+      await request(app).post('/api/auth/register').send(validUser);
+      await request(app)
+        .post('/api/auth/verify-email')
+        .send({
+          email: validUser.email,
+          code: lastVerificationCode(),
+        });
+
+      const loginResponse = await request(app)
+        .post('/api/auth/login')
+        .send(validUser);
+      authToken = loginResponse.body.data.token;
+    });
+
+    afterEach(() => {
+      sendResetSpy.mockRestore();
+    });
+
+    const requestResetToken = async (): Promise<string> => {
+      await request(app)
+        .post('/api/auth/forgot-password')
+        .send({ email: validUser.email });
+      return sendResetSpy.mock.calls[0][1];
+    };
+
+    it('should send a reset email and store only a hash of the token', async () => {
+      const response = await request(app)
+        .post('/api/auth/forgot-password')
+        .send({ email: validUser.email });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toHaveProperty('success', true);
+      expect(sendResetSpy).toHaveBeenCalledTimes(1);
+
+      const token = sendResetSpy.mock.calls[0][1];
+      const user = await User.findOne({ email: validUser.email })
+        .select('+passwordResetToken');
+      expect(user?.passwordResetToken).toBeTruthy();
+      expect(user?.passwordResetToken).not.toBe(token);
+    });
+
+    it('should not reveal whether an account exists', async () => {
+      const response = await request(app)
+        .post('/api/auth/forgot-password')
+        .send({ email: 'nonexistent@example.com' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toHaveProperty('success', true);
+      expect(sendResetSpy).not.toHaveBeenCalled();
+    });
+
+    it('should reset the password with a valid token', async () => {
+      const token = await requestResetToken();
+
+      const response = await request(app)
+        .post('/api/auth/reset-password')
+        .send({ token, password: newPassword });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toHaveProperty('success', true);
+
+      const oldLogin = await request(app)
+        .post('/api/auth/login')
+        .send(validUser);
+      expect(oldLogin.status).toBe(401);
+
+      const newLogin = await request(app)
+        .post('/api/auth/login')
+        .send({ email: validUser.email, password: newPassword });
+      expect(newLogin.status).toBe(200);
+    });
+
+    it('should only allow a reset token to be used once', async () => {
+      const token = await requestResetToken();
+
+      await request(app)
+        .post('/api/auth/reset-password')
+        .send({ token, password: newPassword });
+
+      const response = await request(app)
+        .post('/api/auth/reset-password')
+        .send({ token, password: 'AnotherPassword789!' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toHaveProperty('code', 'INVALID_RESET_TOKEN');
+    });
+
+    it('should reject an expired reset token', async () => {
+      const token = await requestResetToken();
+      await User.updateOne(
+        { email: validUser.email },
+        { passwordResetExpires: new Date(Date.now() - 1000) }
+      );
+
+      const response = await request(app)
+        .post('/api/auth/reset-password')
+        .send({ token, password: newPassword });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toHaveProperty('code', 'INVALID_RESET_TOKEN');
+    });
+
+    it('should invalidate tokens issued before the reset', async () => {
+      const token = await requestResetToken();
+
+      // Make sure the reset happens in a later second than the login
+      await new Promise(resolve => setTimeout(resolve, 1100));
+
+      await request(app)
+        .post('/api/auth/reset-password')
+        .send({ token, password: newPassword });
+
+      const response = await request(app)
+        .get('/api/auth/me')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(401);
+      expect(response.body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+  });
+
+  describe('Role-based access control', () => {
+    const validUser = {
+      email: 'test@example.com',
+      password: 'Password123!',
+    };
+
+    let authToken: string;
+
+    beforeEach(async () => {
+      await request(app).post('/api/auth/register').send(validUser);
+      await request(app)
+        .post('/api/auth/verify-email')
+        .send({
+          email: validUser.email,
+          code: lastVerificationCode(),
+        });
+
+      const loginResponse = await request(app)
+        .post('/api/auth/login')
+        .send(validUser);
+      authToken = loginResponse.body.data.token;
+    });
+
+    it('should assign the user role by default', async () => {
+      const response = await request(app)
+        .get('/api/auth/me')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.body.data.user).toHaveProperty('role', 'user');
+    });
+
+    it('should require authentication for pipeline routes', async () => {
+      const response = await request(app).post('/api/pipeline/trigger');
+
+      expect(response.status).toBe(401);
+      expect(response.body.error).toHaveProperty('code', 'UNAUTHORIZED');
+    });
+
+    it('should forbid pipeline routes for non-admin users', async () => {
+      const response = await request(app)
+        .post('/api/pipeline/trigger')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(403);
+      expect(response.body.error).toHaveProperty('code', 'FORBIDDEN');
+    });
+
+    it('should allow admins to access admin routes', async () => {
+      await User.updateOne({ email: validUser.email }, { role: 'admin' });
+
+      const statusResponse = await request(app)
+        .get('/api/pipeline/status')
+        .set('Authorization', `Bearer ${authToken}`);
+      expect(statusResponse.status).toBe(200);
+
+      const usersResponse = await request(app)
+        .get('/api/admin/users?role=admin')
+        .set('Authorization', `Bearer ${authToken}`);
+      expect(usersResponse.status).toBe(200);
+      expect(usersResponse.body.data.users).toHaveLength(1);
+      expect(usersResponse.body.data.users[0]).toHaveProperty('role', 'admin');
+    });
+  });
+
+  describe('Passwordless login', () => {
+    const validUser = {
+      email: 'test@example.com',
+      password: 'Password123!',
+    };
+
+    let sendLoginCodeSpy: jest.SpyInstance;
+
+    beforeEach(async () => {
+      sendLoginCodeSpy = jest
+        .spyOn(EmailService, 'sendLoginCode')
+        .mockResolvedValue(undefined);
+
+      await request(app).post('/api/auth/register').send(validUser);
+      await request(app)
+        .post('/api/auth/verify-email')
+        .send({
+          email: validUser.email,
+          code: lastVerificationCode(),
+        });
+    });
+
+    afterEach(() => {
+      sendLoginCodeSpy.mockRestore();
+    });
+
+    const requestLoginCode = async (): Promise<string> => {
+      await request(app)
+        .post('/api/auth/login/email-code')
+        .send({ email: validUser.email });
+      return sendLoginCodeSpy.mock.calls[0][1];
+    };
+
+    it('should send a code and store only its hash', async () => {
+      const code = await requestLoginCode();
+
+      expect(code).toMatch(/^\d{6}$/);
+      const user = await User.findOne({ email: validUser.email }).select('+loginCode');
+      expect(user?.loginCode).toBeDefined();
+      expect(user?.loginCode).not.toBe(code);
+    });
+
+    it('should log in with the code only once', async () => {
+      const code = await requestLoginCode();
+
+      const response = await request(app)
+        .post('/api/auth/login/email-code/verify')
+        .send({ email: validUser.email, code });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toHaveProperty('token');
+      expect(response.body.data).toHaveProperty('refreshToken');
+
+      const reuseResponse = await request(app)
+        .post('/api/auth/login/email-code/verify')
+        .send({ email: validUser.email, code });
+
+      expect(reuseResponse.status).toBe(401);
+      expect(reuseResponse.body.error).toHaveProperty('code', 'INVALID_CODE');
+    });
+
+    it('should not reveal whether an account exists', async () => {
+      const response = await request(app)
+        .post('/api/auth/login/email-code')
+        .send({ email: 'nobody@example.com' });
+
+      expect(response.status).toBe(200);
+      expect(sendLoginCodeSpy).not.toHaveBeenCalled();
+    });
+
+    it('should not send another code within the resend interval', async () => {
+      await requestLoginCode();
+      await request(app)
+        .post('/api/auth/login/email-code')
+        .send({ email: validUser.email });
+
+      expect(sendLoginCodeSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it('should invalidate the code after too many wrong guesses', async () => {
+      const code = await requestLoginCode();
+      const wrongCode = code === '000000' ? '111111' : '000000';
+
+      for (let i = 0; i < 5; i++) {
+        await AuthAttempt.deleteMany({});
+        await request(app)
+          .post('/api/auth/login/email-code/verify')
+          .send({ email: validUser.email, code: wrongCode });
+      }
+
+      await AuthAttempt.deleteMany({});
+      const response = await request(app)
+        .post('/api/auth/login/email-code/verify')
+        .send({ email: validUser.email, code });
+
+      expect(response.status).toBe(401);
+      expect(response.body.error).toHaveProperty('code', 'CODE_ATTEMPTS_EXCEEDED');
+    });
+  });
+
+  describe('Two-factor authentication', () => {
+    const validUser = {
+      email: 'test@example.com',
+      password: 'Password123!',
+    };
+
+    let authToken: string;
+    let secret: string;
+    let recoveryCodes: string[];
+
+    // The enrollment code's time step is used up, so log in with the next one
+    const nextCode = () => totp(secret, { time: Date.now() + 30 * 1000 });
+
+    beforeEach(async () => {
+      await request(app).post('/api/auth/register').send(validUser);
+      await request(app)
+        .post('/api/auth/verify-email')
+        .send({
+          email: validUser.email,
+          code: lastVerificationCode(),
+        });
+
+      const loginResponse = await request(app)
+        .post('/api/auth/login')
+        .send(validUser);
+      authToken = loginResponse.body.data.token;
+
+      const setupResponse = await request(app)
+        .post('/api/auth/2fa/setup')
+        .set('Authorization', `Bearer ${authToken}`);
+      secret = setupResponse.body.data.secret;
+
+      const confirmResponse = await request(app)
+        .post('/api/auth/2fa/confirm')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ code: totp(secret) });
+      recoveryCodes = confirmResponse.body.data.recoveryCodes;
+    });
+
+    it('should enable 2FA and issue recovery codes', async () => {
+      expect(recoveryCodes).toHaveLength(10);
+
+      const response = await request(app)
+        .get('/api/auth/me')
+        .set('Authorization', `Bearer ${authToken}`);
+      expect(response.body.data.user).toHaveProperty('twoFactorEnabled', true);
+    });
+
+    it('should require a second factor to log in', async () => {
+      const loginResponse = await request(app)
+        .post('/api/auth/login')
+        .send(validUser);
+
+      expect(loginResponse.status).toBe(200);
+      expect(loginResponse.body.data).toHaveProperty('twoFactorRequired', true);
+      expect(loginResponse.body.data).not.toHaveProperty('token');
+
+      const response = await request(app)
+        .post('/api/auth/login/2fa')
+        .send({
+          challengeToken: loginResponse.body.data.challengeToken,
+          code: nextCode(),
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toHaveProperty('token');
+      expect(response.body.data).toHaveProperty('refreshToken');
+    });
+
+    it('should reject a replayed code', async () => {
+      const code = nextCode();
+
+      for (const expectedStatus of [200, 401]) {
+        const loginResponse = await request(app)
+          .post('/api/auth/login')
+          .send(validUser);
+        const response = await request(app)
+          .post('/api/auth/login/2fa')
+          .send({ challengeToken: loginResponse.body.data.challengeToken, code });
+
+        expect(response.status).toBe(expectedStatus);
+      }
+    });
+
+    it('should accept each recovery code only once', async () => {
+      for (const expectedStatus of [200, 401]) {
+        const loginResponse = await request(app)
+          .post('/api/auth/login')
+          .send(validUser);
+        const response = await request(app)
+          .post('/api/auth/login/2fa')
+          .send({
+            challengeToken: loginResponse.body.data.challengeToken,
+            recoveryCode: recoveryCodes[0],
+          });
+
+        expect(response.status).toBe(expectedStatus);
+      }
+    });
+
+    it('should not accept a challenge token as an access token', async () => {
+      const loginResponse = await request(app)
+        .post('/api/auth/login')
+        .send(validUser);
+
+      const response = await request(app)
+        .get('/api/auth/me')
+        .set('Authorization', `Bearer ${loginResponse.body.data.challengeToken}`);
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should disable 2FA with password and code', async () => {
+      const response = await request(app)
+        .post('/api/auth/2fa/disable')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ password: validUser.password, code: nextCode() });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.user).toHaveProperty('twoFactorEnabled', false);
+
+      const loginResponse = await request(app)
+        .post('/api/auth/login')
+        .send(validUser);
+      expect(loginResponse.body.data).toHaveProperty('token');
+    });
+  });
+
+  describe('Auth audit log', () => {
+    const validUser = {
+      email: 'test@example.com',
+      password: 'Password123!',
+    };
+
+    let authToken: string;
+
+    beforeEach(async () => {
+      await request(app).post('/api/auth/register').send(validUser);
+      await request(app)
+        .post('/api/auth/verify-email')
+        .send({
+          email: validUser.email,
+          code: lastVerificationCode(),
+        });
+
+      await request(app)
+        .post('/api/auth/login')
+        .send({ email: validUser.email, password: 'WrongPassword!' });
+
+      const loginResponse = await request(app)
+        .post('/api/auth/login')
+        .send(validUser);
+      authToken = loginResponse.body.data.token;
+    });
+
+    it('should show the user their own auth history, newest first', async () => {
+      const response = await request(app)
+        .get('/api/auth/me/activity')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(200);
+      const events = response.body.data.events.map(
+        (event: { type: string; outcome: string; reason?: string }) =>
+          [event.type, event.outcome, event.reason]
+      );
+      expect(events).toEqual([
+        ['login', 'success', undefined],
+        ['login', 'failure', 'INVALID_CREDENTIALS'],
+        ['verify_email', 'success', undefined],
+        ['register', 'success', undefined],
+      ]);
+    });
+
+    it('should record rejected access tokens', async () => {
+      await request(app)
+        .get('/api/auth/me')
+        .set('Authorization', 'Bearer invalid-token');
+
+      const event = await AuthEvent.findOne({ type: 'token_rejected' });
+      expect(event).toBeTruthy();
+      expect(event?.reason).toBe('INVALID_TOKEN');
+    });
+
+    it('should set a retention expiry on every event', async () => {
+      const events = await AuthEvent.find({});
+      expect(events.length).toBeGreaterThan(0);
+      for (const event of events) {
+        expect(event.expiresAt.getTime()).toBeGreaterThan(Date.now());
+      }
+    });
+
+    it('should let admins filter events by type and outcome', async () => {
+      const forbidden = await request(app)
+        .get('/api/admin/auth-events')
+        .set('Authorization', `Bearer ${authToken}`);
+      expect(forbidden.status).toBe(403);
+
+      await User.updateOne({ email: validUser.email }, { role: 'admin' });
+
+      const response = await request(app)
+        .get('/api/admin/auth-events?type=login&outcome=failure')
+        .set('Authorization', `Bearer ${authToken}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.total).toBe(1);
+      expect(response.body.data.events[0]).toHaveProperty('reason', 'INVALID_CREDENTIALS');
+    });
+  });
+
+  describe('API keys', () => {
+    const validUser = {
+      email: 'test@example.com',
+      password: 'Password123!',
+    };
+
+    let authToken: string;
+
+    const createKey = async (scopes: string[]) => {
+      const response = await request(app)
+        .post('/api/auth/api-keys')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ name: 'Spreadsheet', scopes });
+      return response.body.data;
+    };
+
+    beforeEach(async () => {
+      await request(app).post('/api/auth/register').send(validUser);
+      await request(app)
+        .post('/api/auth/verify-email')
+        .send({
+          email: validUser.email,
+          code: lastVerificationCode(),
+        });
+
+      const loginResponse = await request(app)
+        .post('/api/auth/login')
+        .send(validUser);
+      authToken = loginResponse.body.data.token;
+    });
+
+    it('should return the key once and store only its hash', async () => {
+      const { key, apiKey } = await createKey(['resume:read']);
+
+      expect(key).toMatch(/^jsk_[a-f0-9]{48}$/);
+      expect(apiKey).toHaveProperty('prefix', key.slice(0, 12));
+
+      const stored = await ApiKey.findById(apiKey.id).select('+keyHash');
+      expect(stored?.keyHash).not.toBe(key);
+
+      const listResponse = await request(app)
+        .get('/api/auth/api-keys')
+        .set('Authorization', `Bearer ${authToken}`);
+      expect(listResponse.body.data.apiKeys).toHaveLength(1);
+      expect(listResponse.body.data.apiKeys[0]).not.toHaveProperty('key');
+      expect(listResponse.body.data.apiKeys[0]).not.toHaveProperty('keyHash');
+    });
+
+    it('should accept a key on routes within its scope', async () => {
+      const { key, apiKey } = await createKey(['resume:read']);
+
+      const response = await request(app)
+        .get('/api/resume/000000000000000000000000')
+        .set('X-API-Key', key);
+
+      // Authenticated, so the request reaches the resume lookup
+      expect(response.status).toBe(404);
+
+      const stored = await ApiKey.findById(apiKey.id);
+      expect(stored?.lastUsedAt).toBeDefined();
+    });
+
+    it('should reject a key without the required scope', async () => {
+      const { key } = await createKey(['jobs:read']);
+
+      const response = await request(app)
+        .get('/api/resume/000000000000000000000000')
+        .set('X-API-Key', key);
+
+      expect(response.status).toBe(403);
+      expect(response.body.error).toHaveProperty('code', 'INSUFFICIENT_SCOPE');
+    });
+
+    it('should reject keys on routes that do not accept them', async () => {
+      const { key } = await createKey(['jobs:read', 'resume:read']);
+
+      const meResponse = await request(app)
+        .get('/api/auth/me')
+        .set('X-API-Key', key);
+      expect(meResponse.status).toBe(403);
+      expect(meResponse.body.error).toHaveProperty('code', 'API_KEY_NOT_ALLOWED');
+
+      const createResponse = await request(app)
+        .post('/api/auth/api-keys')
+        .set('X-API-Key', key)
+        .send({ name: 'Escalation', scopes: ['resume:read'] });
+      expect(createResponse.status).toBe(403);
+    });
+
+    it('should reject revoked keys', async () => {
+      const { key, apiKey } = await createKey(['resume:read']);
+
+      const revokeResponse = await request(app)
+        .delete(`/api/auth/api-keys/${apiKey.id}`)
+        .set('Authorization', `Bearer ${authToken}`);
+      expect(revokeResponse.status).toBe(200);
+
+      const response = await request(app)
+        .get('/api/resume/000000000000000000000000')
+        .set('X-API-Key', key);
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe('Brute-force protection', () => {
+    const validUser = {
+      email: 'test@example.com',
+      password: 'Password123!',
+    };
+
+    const verifyUser = async () => {
+      await request(app)
+        .post('/api/auth/verify-email')
+        .send({
+          email: validUser.email,
+          code: lastVerificationCode(),
+        });
+    };
+
+    const wrongLogin = () =>
+      request(app)
+        .post('/api/auth/login')
+        .send({ email: validUser.email, password: 'wrongpassword' });
+
+    beforeEach(async () => {
+      await request(app).post('/api/auth/register').send(validUser);
+    });
+
+    it('should delay further attempts after repeated failures', async () => {
+      await verifyUser();
+
+      for (let i = 0; i < 3; i++) {
+        const response = await wrongLogin();
+        expect(response.status).toBe(401);
+      }
+
+      const response = await request(app)
+        .post('/api/auth/login')
+        .send(validUser);
+
+      expect(response.status).toBe(429);
+      expect(response.body.error).toHaveProperty('code', 'TOO_MANY_ATTEMPTS');
+      expect(response.headers).toHaveProperty('retry-after');
+    });
+
+    it('should lock the account after too many failures', async () => {
+      await verifyUser();
+      await AuthAttempt.create({
+        key: `login:account:${validUser.email}`,
+        failures: 9,
+        lastFailureAt: new Date(Date.now() - 60 * 1000),
+        expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      });
+
+      await wrongLogin();
+
+      // Even the correct password is rejected while locked
+      const response = await request(app)
+        .post('/api/auth/login')
+        .send(validUser);
+
+      expect(response.status).toBe(429);
+      expect(response.body.error).toHaveProperty('code', 'ACCOUNT_LOCKED');
+    });
+
+    it('should invalidate the verification code after too many wrong guesses', async () => {
+      const wrongCode = lastVerificationCode() === '000000' ? '111111' : '000000';
+
+      for (let i = 0; i < 5; i++) {
+        // Clear the limiter so only the per-code counter is exercised
+        await AuthAttempt.deleteMany({});
+        await request(app)
+          .post('/api/auth/verify-email')
+          .send({ email: validUser.email, code: wrongCode });
+      }
+
+      await AuthAttempt.deleteMany({});
+      const response = await request(app)
+        .post('/api/auth/verify-email')
+        .send({ email: validUser.email, code: lastVerificationCode() });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toHaveProperty('code', 'CODE_ATTEMPTS_EXCEEDED');
+    });
+  });
+
+  describe('Auth Flow Integration Test', () => {
+    it('should complete full auth flow: register -> verify -> login -> get profile', async () => {
+      const userData = {
+        email: 'flowtest@example.com',
+        password: 'Password123!',
+      };
+
+      // Step 1: Register
+      const registerResponse = await request(app)
+        .post('/api/auth/register')
+        .send(userData);
+
+      expect(registerResponse.status).toBe(201);
+      expect(registerResponse.body.data.user.emailVerified).toBe(false);
+
+      // Step 2: Get verification code from the (mocked) verification email
 
       // Step 3: Verify email
       const verifyResponse = await request(app)
         .post('/api/auth/verify-email')
         .send({
           email: userData.email,
-          code: user?.verificationCode,
+          code: lastVerificationCode(),
         });
 
       expect(verifyResponse.status).toBe(200);
@@ -0,0 +1,138 @@
+import request from 'supertest';
+import mongoose from 'mongoose';
+import app from '../index';
+import { connectDatabase, disconnectDatabase } from '../config/database';
+import Bookmark from '../models/Bookmark';
+import filteredJobService, { IFilteredJob } from '../models/FilteredJob';
+import { loginTestUser, resetTestUsers, restoreTestUsers } from './helpers/testUsers';
+
+/**
+ * Bookmark API Integration Tests
+ */
+describe('Bookmark API', () => {
+  const userEmail = 'bookmarker@example.com';
+
+  const job = {
+    _id: new mongoose.Types.ObjectId(),
+    job_title: 'Backend Engineer',
+    company_name_normalized: 'Acme',
+    job_location: 'Sydney NSW',
+    platform: 'seek',
+    apply_link: 'https://example.com/apply',
+    date: '2026-10-01',
+    analysis: { match_score: 80 },
+  } as unknown as IFilteredJob;
+
+  let getJobByIdSpy: jest.SpyInstance;
+  let authToken: string;
+
+  const bookmark = (jobId: string, token = authToken) =>
+    request(app).post(`/api/jobs/${jobId}/bookmark`).set('Authorization', `Bearer ${token}`);
+
+  beforeAll(async () => {
+    await connectDatabase();
+  }, 30000);
+
+  afterAll(async () => {
+    await disconnectDatabase();
+  }, 30000);
+
+  beforeEach(async () => {
+    await resetTestUsers();
+    await Bookmark.deleteMany({});
+
+    getJobByIdSpy = jest
+      .spyOn(filteredJobService, 'getJobById')
+      .mockImplementation(async id => (id === job._id.toString() ? { ...job } : null));
+
+    authToken = await loginTestUser(userEmail);
+  });
+
+  afterEach(() => {
+    restoreTestUsers();
+    getJobByIdSpy.mockRestore();
+  });
+
+  it('should require authentication', async () => {
+    const response = await request(app).get('/api/me/bookmarks');
+    expect(response.status).toBe(401);
+  });
+
+  it('should bookmark a job with a snapshot and list it', async () => {
+    const created = await bookmark(job._id.toString());
+    expect(created.status).toBe(200);
+    expect(created.body.data.bookmark).toMatchObject({
+      jobId: job._id.toString(),
+      job: { job_title: 'Backend Engineer', company_name_normalized: 'Acme', match_score: 80 },
+    });
+
+    // Bookmarking again refreshes the existing bookmark
+    await bookmark(job._id.toString());
+    expect(await Bookmark.countDocuments()).toBe(1);
+
+    const list = await request(app)
+      .get('/api/me/bookmarks')
+      .set('Authorization', `Bearer ${authToken}`);
+    expect(list.status).toBe(200);
+    expect(list.body.data).toMatchObject({ total: 1, page: 1, limit: 20 });
+    expect(list.body.data.bookmarks[0].job.job_title).toBe('Backend Engineer');
+  });
+
+  it('should return 404 for unknown jobs', async () => {
+    const response = await bookmark(new mongoose.Types.ObjectId().toString());
+    expect(response.status).toBe(404);
+    expect(response.body.error.code).toBe('NOT_FOUND');
+  });
+
+  it('should remove bookmarks', async () => {
+    await bookmark(job._id.toString());
+
+    const removed = await request(app)
+      .delete(`/api/jobs/${job._id}/bookmark`)
+      .set('Authorization', `Bearer ${authToken}`);
+    expect(removed.status).toBe(200);
+    expect(await Bookmark.countDocuments()).toBe(0);
+
+    const again = await request(app)
+      .delete(`/api/jobs/${job._id}/bookmark`)
+      .set('Authorization', `Bearer ${authToken}`);
+    expect(again.status).toBe(404);
+  });
+
+  it('should keep bookmarks private to their owner', async () => {
+    await bookmark(job._id.toString());
+    const otherToken = await loginTestUser('other@example.com');
+
+    const list = await request(app)
+      .get('/api/me/bookmarks')
+      .set('Authorization', `Bearer ${otherToken}`);
+    expect(list.body.data.total).toBe(0);
+  });
+
+  it('should flag bookmarked jobs in listings for signed-in callers', async () => {
+    const otherJob = { ...job, _id: new mongoose.Types.ObjectId() } as IFilteredJob;
+    const getJobsSpy = jest.spyOn(filteredJobService, 'getJobs').mockImplementation(async () => ({
+      data: [{ ...job }, { ...otherJob }],
+      limit: 10,
+      nextCursor: null,
+    }));
+
+    try {
+      await bookmark(job._id.toString());
+
+      const signedIn = await request(app)
+        .get('/api/jobs')
+        .set('Authorization', `Bearer ${authToken}`);
+      expect(signedIn.status).toBe(200);
+      expect(signedIn.body.data.map((item: IFilteredJob) => item.bookmarked)).toEqual([
+        true,
+        false,
+      ]);
+
+      const anonymous = await request(app).get('/api/jobs');
+      expect(anonymous.body.data[0]).not.toHaveProperty('bookmarked');
+    } finally {
+      getJobsSpy.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,60 @@
+import mongoose from 'mongoose';
+import { buildCursorFilter, decodeCursor, encodeCursor, InvalidCursorError } from '../utils/cursor';
+
+describe('Pagination cursors', () => {
+  const id = new mongoose.Types.ObjectId();
+
+  it('should round-trip date sort values', () => {
+    const updatedAt = new Date('2025-03-01T10:00:00Z');
+    const cursor = encodeCursor({ _id: id, updated_at: updatedAt }, 'updated_at', -1);
+
+    const position = decodeCursor(cursor, 'updated_at', -1);
+    expect(position.value).toEqual(updatedAt);
+    expect(position.id.equals(id)).toBe(true);
+  });
+
+  it('should read nested sort fields', () => {
+    const cursor = encodeCursor({ _id: id, analysis: { match_score: 87 } }, 'analysis.match_score', 1);
+
+    expect(decodeCursor(cursor, 'analysis.match_score', 1).value).toBe(87);
+  });
+
+  it('should reject cursors issued for another sort', () => {
+    const cursor = encodeCursor({ _id: id, updated_at: new Date() }, 'updated_at', -1);
+
+    expect(() => decodeCursor(cursor, 'updated_at', 1)).toThrow(InvalidCursorError);
+    expect(() => decodeCursor(cursor, 'date', -1)).toThrow(InvalidCursorError);
+  });
+
+  it('should reject malformed cursors and operator injection', () => {
+    expect(() => decodeCursor('not-a-cursor', 'updated_at', -1)).toThrow(InvalidCursorError);
+
+    const injected = Buffer.from(
+      JSON.stringify({ s: 'date', o: -1, v: { $ne: null }, i: id.toString() })
+    ).toString('base64url');
+    expect(() => decodeCursor(injected, 'date', -1)).toThrow(InvalidCursorError);
+  });
+
+  it('should select later values and same-value later ids', () => {
+    const filter = buildCursorFilter({ value: 50, id }, 'analysis.match_score', 1);
+
+    expect(filter).toEqual({
+      $or: [
+        { 'analysis.match_score': { $gt: 50 } },
+        { 'analysis.match_score': 50, _id: { $gt: id } },
+      ],
+    });
+  });
+
+  it('should place missing values last when sorting descending', () => {
+    const filter = buildCursorFilter({ value: '2025-03-01', id }, 'date', -1);
+
+    expect(filter).toEqual({
+      $or: [
+        { date: { $lt: '2025-03-01' } },
+        { date: '2025-03-01', _id: { $lt: id } },
+        { date: null },
+      ],
+    });
+  });
+});
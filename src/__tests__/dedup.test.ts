@@ -0,0 +1,97 @@
+import {
+  DedupCandidate,
+  clusterDuplicates,
+  minHashSignature,
+  normalizeCompany,
+  normalizeLocation,
+  signatureSimilarity,
+  titleWords,
+} from '../utils/dedup';
+
+const DESCRIPTION =
+  'We are looking for a backend engineer to design and build scalable APIs in TypeScript ' +
+  'and Node.js. You will work with product managers and designers, own services end to end, ' +
+  'write tests, review code and mentor junior developers. Experience with MongoDB and AWS is ' +
+  'highly regarded. We offer flexible hours, hybrid work and a learning budget.';
+
+const listing = (overrides: Partial<DedupCandidate>): DedupCandidate => ({
+  id: '000000000000000000000001',
+  company: 'Acme Pty Ltd',
+  title: 'Senior Backend Engineer',
+  location: 'Sydney NSW',
+  description: DESCRIPTION,
+  ...overrides,
+});
+
+describe('Duplicate detection', () => {
+  it('should normalize companies, titles and locations', () => {
+    expect(normalizeCompany('Acme Pty. Ltd.')).toBe('acme');
+    expect(normalizeCompany('The Acme Group')).toBe('acme');
+    expect(normalizeCompany('Smith & Sons')).toBe('smith and sons');
+    expect(titleWords('Sr. Backend Engineer (Remote)')).toEqual(
+      new Set(['senior', 'backend', 'engineer'])
+    );
+    expect(normalizeLocation('Sydney, New South Wales')).toBe('sydney');
+    expect(normalizeLocation('Sydney NSW 2000')).toBe('sydney 2000');
+  });
+
+  it('should estimate description similarity with MinHash', () => {
+    const original = minHashSignature(DESCRIPTION) as Uint32Array;
+    const edited = minHashSignature(`${DESCRIPTION} Apply now via our careers page.`) as Uint32Array;
+    const unrelated = minHashSignature(
+      'Join our retail team as a store manager. You will lead a team of casual staff, manage ' +
+        'rosters and stock, and deliver great customer service across weekends.'
+    ) as Uint32Array;
+
+    expect(signatureSimilarity(original, original)).toBe(1);
+    expect(signatureSimilarity(original, edited)).toBeGreaterThan(0.7);
+    expect(signatureSimilarity(original, unrelated)).toBeLessThan(0.2);
+    expect(minHashSignature('')).toBeNull();
+  });
+
+  it('should cluster the same role across platforms under the smallest id', () => {
+    const clusters = clusterDuplicates([
+      listing({ id: '000000000000000000000003' }),
+      listing({
+        id: '000000000000000000000002',
+        company: 'ACME',
+        title: 'Sr Backend Engineer',
+        location: 'Sydney',
+        description: `${DESCRIPTION} Apply via Seek.`,
+      }),
+      listing({ id: '000000000000000000000001', company: 'Acme Limited', location: '' }),
+    ]);
+
+    expect(clusters.get('000000000000000000000001')).toBe('000000000000000000000001');
+    expect(clusters.get('000000000000000000000002')).toBe('000000000000000000000001');
+    expect(clusters.get('000000000000000000000003')).toBe('000000000000000000000001');
+  });
+
+  it('should keep different roles, locations and companies apart', () => {
+    const clusters = clusterDuplicates([
+      listing({ id: '000000000000000000000001' }),
+      listing({ id: '000000000000000000000002', title: 'Frontend Designer' }),
+      listing({ id: '000000000000000000000003', location: 'Melbourne VIC' }),
+      listing({ id: '000000000000000000000004', company: 'Globex' }),
+      listing({
+        id: '000000000000000000000005',
+        description: 'Completely different duties in a warehouse, driving forklifts on night shifts.',
+      }),
+    ]);
+
+    expect(clusters.size).toBe(0);
+  });
+
+  it('should only match listings without descriptions on identical titles', () => {
+    const clusters = clusterDuplicates([
+      listing({ id: '000000000000000000000001', description: '' }),
+      listing({ id: '000000000000000000000002', description: '' }),
+      listing({ id: '000000000000000000000003', title: 'Senior Backend Engineer II', description: '' }),
+    ]);
+
+    expect([...clusters.keys()].sort()).toEqual([
+      '000000000000000000000001',
+      '000000000000000000000002',
+    ]);
+  });
+});
@@ -0,0 +1,56 @@
+import request from 'supertest';
+import app from '../../index';
+import User from '../../models/User';
+import RefreshToken from '../../models/RefreshToken';
+import Session from '../../models/Session';
+import EmailService from '../../services/EmailService';
+
+/**
+ * Shared helpers for integration tests that need signed-in users
+ */
+
+export const TEST_PASSWORD = 'Password123!';
+
+let sendVerificationSpy: jest.SpyInstance | undefined;
+
+/**
+ * Delete all users with their tokens and sessions, and capture verification emails
+ * Call from beforeEach, with restoreTestUsers in afterEach.
+ */
+export async function resetTestUsers(): Promise<void> {
+  await User.deleteMany({});
+  await RefreshToken.deleteMany({});
+  await Session.deleteMany({});
+
+  sendVerificationSpy = jest
+    .spyOn(EmailService, 'sendVerificationEmail')
+    .mockResolvedValue(undefined);
+}
+
+/**
+ * Restore the verification email spy
+ */
+export function restoreTestUsers(): void {
+  sendVerificationSpy?.mockRestore();
+  sendVerificationSpy = undefined;
+}
+
+/**
+ * Register, verify and log in a user, returning an access token
+ */
+export async function loginTestUser(email: string): Promise<string> {
+  if (!sendVerificationSpy) {
+    throw new Error('Call resetTestUsers before logging in test users');
+  }
+
+  await request(app).post('/api/auth/register').send({ email, password: TEST_PASSWORD });
+  const calls = sendVerificationSpy.mock.calls;
+  await request(app)
+    .post('/api/auth/verify-email')
+    .send({ email, code: calls[calls.length - 1][1] });
+
+  const response = await request(app)
+    .post('/api/auth/login')
+    .send({ email, password: TEST_PASSWORD });
+  return response.body.data.token;
+}
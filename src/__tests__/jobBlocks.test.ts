@@ -0,0 +1,151 @@
+import request from 'supertest';
+import mongoose from 'mongoose';
+import app from '../index';
+import { connectDatabase, disconnectDatabase } from '../config/database';
+import JobBlock from '../models/JobBlock';
+import filteredJobService, { IFilteredJob } from '../models/FilteredJob';
+import { loginTestUser, resetTestUsers, restoreTestUsers } from './helpers/testUsers';
+
+/**
+ * Job Block List API Integration Tests
+ */
+describe('Job Block List API', () => {
+  const userEmail = 'hider@example.com';
+
+  const job = {
+    _id: new mongoose.Types.ObjectId(),
+    job_title: 'Sales Engineer',
+    company_name_normalized: 'Initech',
+  } as unknown as IFilteredJob;
+
+  let getJobByIdSpy: jest.SpyInstance;
+  let getJobsSpy: jest.SpyInstance;
+  let authToken: string;
+
+  const addBlock = (body: object, token = authToken) =>
+    request(app).post('/api/me/blocklist').set('Authorization', `Bearer ${token}`).send(body);
+
+  beforeAll(async () => {
+    await connectDatabase();
+  }, 30000);
+
+  afterAll(async () => {
+    await disconnectDatabase();
+  }, 30000);
+
+  beforeEach(async () => {
+    await resetTestUsers();
+    await JobBlock.deleteMany({});
+
+    getJobByIdSpy = jest
+      .spyOn(filteredJobService, 'getJobById')
+      .mockImplementation(async id => (id === job._id.toString() ? { ...job } : null));
+    getJobsSpy = jest
+      .spyOn(filteredJobService, 'getJobs')
+      .mockResolvedValue({ data: [], limit: 10, nextCursor: null });
+
+    authToken = await loginTestUser(userEmail);
+  });
+
+  afterEach(() => {
+    restoreTestUsers();
+    getJobByIdSpy.mockRestore();
+    getJobsSpy.mockRestore();
+  });
+
+  it('should require authentication', async () => {
+    const response = await request(app).get('/api/me/blocklist');
+    expect(response.status).toBe(401);
+  });
+
+  it('should dismiss and restore jobs', async () => {
+    const dismissed = await request(app)
+      .post(`/api/jobs/${job._id}/dismiss`)
+      .set('Authorization', `Bearer ${authToken}`);
+    expect(dismissed.status).toBe(200);
+    expect(dismissed.body.data.block).toMatchObject({
+      type: 'job',
+      value: job._id.toString(),
+      label: 'Sales Engineer at Initech',
+    });
+
+    const restored = await request(app)
+      .delete(`/api/jobs/${job._id}/dismiss`)
+      .set('Authorization', `Bearer ${authToken}`);
+    expect(restored.status).toBe(200);
+    expect(await JobBlock.countDocuments()).toBe(0);
+  });
+
+  it('should return 404 when dismissing unknown jobs', async () => {
+    const response = await request(app)
+      .post(`/api/jobs/${new mongoose.Types.ObjectId()}/dismiss`)
+      .set('Authorization', `Bearer ${authToken}`);
+    expect(response.status).toBe(404);
+  });
+
+  it('should manage blocked companies and keywords', async () => {
+    const company = await addBlock({ type: 'company', value: 'Initech' });
+    expect(company.status).toBe(200);
+    expect(company.body.data.block).toMatchObject({ type: 'company', value: 'initech' });
+
+    // Blocking the same value again keeps one entry
+    await addBlock({ type: 'company', value: 'INITECH' });
+    await addBlock({ type: 'keyword', value: 'door to door' });
+
+    const list = await request(app)
+      .get('/api/me/blocklist?type=company')
+      .set('Authorization', `Bearer ${authToken}`);
+    expect(list.body.data.blocks).toHaveLength(1);
+
+    const removed = await request(app)
+      .delete(`/api/me/blocklist/${company.body.data.block.id}`)
+      .set('Authorization', `Bearer ${authToken}`);
+    expect(removed.status).toBe(200);
+    expect(await JobBlock.countDocuments()).toBe(1);
+  });
+
+  it('should reject blocking jobs through the block list', async () => {
+    const response = await addBlock({ type: 'job', value: job._id.toString() });
+    expect(response.status).toBe(400);
+  });
+
+  it('should exclude hidden jobs from listings unless includeHidden is set', async () => {
+    await request(app)
+      .post(`/api/jobs/${job._id}/dismiss`)
+      .set('Authorization', `Bearer ${authToken}`);
+    await addBlock({ type: 'company', value: 'Globex' });
+    await addBlock({ type: 'keyword', value: 'Commission only' });
+
+    await request(app).get('/api/jobs').set('Authorization', `Bearer ${authToken}`);
+    expect(getJobsSpy).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        exclude: {
+          jobIds: [job._id.toString()],
+          companies: ['globex'],
+          keywords: ['commission only'],
+        },
+      })
+    );
+
+    await request(app)
+      .get('/api/jobs?includeHidden=true')
+      .set('Authorization', `Bearer ${authToken}`);
+    expect(getJobsSpy.mock.lastCall[0].exclude).toBeUndefined();
+
+    await request(app).get('/api/jobs');
+    expect(getJobsSpy.mock.lastCall[0].exclude).toBeUndefined();
+  });
+
+  it('should keep block lists private to their owner', async () => {
+    const block = await addBlock({ type: 'keyword', value: 'unpaid' });
+    const otherToken = await loginTestUser('other@example.com');
+
+    const removed = await request(app)
+      .delete(`/api/me/blocklist/${block.body.data.block.id}`)
+      .set('Authorization', `Bearer ${otherToken}`);
+    expect(removed.status).toBe(404);
+
+    await request(app).get('/api/jobs').set('Authorization', `Bearer ${otherToken}`);
+    expect(getJobsSpy.mock.lastCall[0].exclude).toBeUndefined();
+  });
+});
@@ -0,0 +1,82 @@
+import { JobQuerySyntaxError, parseJobQuery } from '../utils/jobQueryLanguage';
+
+describe('Job query language', () => {
+  const now = new Date('2025-06-15T12:00:00Z');
+
+  it('should parse field clauses and keywords', () => {
+    const query = parseJobQuery(
+      'title:"data engineer" company:atlassian score>=70 platform:seek,linkedin remote:true posted:<7d',
+      now
+    );
+
+    expect(query).toEqual({
+      title: 'data engineer',
+      company: 'atlassian',
+      min_score: 70,
+      platform: ['seek', 'linkedin'],
+      remote: true,
+      date_from: '2025-06-09',
+    });
+  });
+
+  it('should pass words and phrases outside clauses to the keyword search', () => {
+    expect(parseJobQuery('"react native" typescript -php state:NSW', now)).toEqual({
+      q: '"react native" typescript -php',
+      state: ['NSW'],
+    });
+  });
+
+  it('should pass URLs to the keyword search', () => {
+    expect(parseJobQuery('see https://acme.com', now)).toEqual({ q: 'see https://acme.com' });
+    expect(parseJobQuery('-http://spam.example company:acme', now)).toEqual({
+      q: '-http://spam.example',
+      company: 'acme',
+    });
+  });
+
+  it('should map comparison operators to score bounds', () => {
+    expect(parseJobQuery('score>60 score<=90', now)).toEqual({
+      min_score: 60,
+      min_score_exclusive: true,
+      max_score: 90,
+    });
+    expect(parseJobQuery('score:75', now)).toEqual({ min_score: 75, max_score: 75 });
+  });
+
+  it('should resolve absolute and relative posted dates', () => {
+    expect(parseJobQuery('posted:2025-06-01', now)).toEqual({ date: '2025-06-01' });
+    expect(parseJobQuery('posted:>2025-06-01', now)).toEqual({ date_from: '2025-06-02' });
+    expect(parseJobQuery('posted:<=2025-06-01', now)).toEqual({ date_to: '2025-06-01' });
+    expect(parseJobQuery('posted:>2w', now)).toEqual({ date_to: '2025-05-31' });
+  });
+
+  it('should map type and arrangement lists', () => {
+    expect(parseJobQuery('type:full_time,contract arrangement:hybrid', now)).toEqual({
+      employment_type: ['full_time', 'contract'],
+      work_arrangement: ['hybrid'],
+    });
+  });
+
+  it.each([
+    ['salary:100000', 'Unknown field "salary"', 0],
+    ['react platform:monster', 'Unknown platform "monster"', 6],
+    ['score>=high', 'Invalid score "high"', 0],
+    ['posted:<yesterday', 'Invalid date "yesterday"', 0],
+    ['remote:maybe', 'must be true or false', 0],
+    ['title>=x', 'does not support ">="', 0],
+    ['-platform:seek', 'cannot be negated', 0],
+    ['score>=50 score:70', 'given earlier', 10],
+    ['company:', 'Missing value for "company"', 0],
+  ])('should reject %s', (input, message, position) => {
+    let error: unknown;
+    try {
+      parseJobQuery(input, now);
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(JobQuerySyntaxError);
+    expect((error as JobQuerySyntaxError).message).toContain(message);
+    expect((error as JobQuerySyntaxError).position).toBe(position);
+  });
+});
@@ -2,10 +2,13 @@ import request from 'supertest';
 import mongoose from 'mongoose';
 import app from '../index';
 import { connectDatabase, disconnectDatabase } from '../config/database';
+import filteredJobService from '../models/FilteredJob';
 
 describe('Job API', () => {
   beforeAll(async () => {
     await connectDatabase();
+    // Keyword searches need the index the create-text-index script sets up
+    await filteredJobService.createTextIndex();
   });
 
   afterAll(async () => {
@@ -66,7 +69,7 @@ describe('Job API', () => {
     });
 
     it('should filter by employment_type', async () => {
-      const response = await request(app).get('/api/jobs?employment_type=contract');
+      const response = await request(app).get('/api/jobs?employmentType=contract');
       expect(response.status).toBe(200);
       expect(response.body).toHaveProperty('data');
       if (response.body.data.length > 0) {
@@ -75,7 +78,7 @@ describe('Job API', () => {
     });
 
     it('should filter by work_arrangement', async () => {
-      const response = await request(app).get('/api/jobs?work_arrangement=remote');
+      const response = await request(app).get('/api/jobs?workArrangement=remote');
       expect(response.status).toBe(200);
       expect(response.body).toHaveProperty('data');
       if (response.body.data.length > 0) {
@@ -94,10 +97,218 @@ describe('Job API', () => {
     });
 
     it('should handle multiple filters together', async () => {
-      const response = await request(app).get('/api/jobs?employment_type=full_time&page=1&limit=5');
+      const response = await request(app).get('/api/jobs?employmentType=full_time,contract&page=1&limit=5');
       expect(response.status).toBe(200);
       expect(response.body).toHaveProperty('data');
     });
+
+    it('should page with cursors without duplicates', async () => {
+      const first = await request(app).get('/api/jobs?cursor=&limit=5');
+      expect(first.status).toBe(200);
+      expect(first.body).not.toHaveProperty('page');
+      expect(first.body).not.toHaveProperty('total');
+      expect(first.body).toHaveProperty('nextCursor');
+
+      if (first.body.nextCursor) {
+        const second = await request(app).get(
+          `/api/jobs?cursor=${first.body.nextCursor}&limit=5`
+        );
+        expect(second.status).toBe(200);
+
+        const firstIds = first.body.data.map((job: { _id: string }) => job._id);
+        for (const job of second.body.data) {
+          expect(firstIds).not.toContain(job._id);
+        }
+      }
+    });
+
+    it('should include the total in cursor mode on request', async () => {
+      const response = await request(app).get('/api/jobs?cursor=&includeTotal=true');
+      expect(response.status).toBe(200);
+      expect(response.body).toHaveProperty('total');
+    });
+
+    it('should reject an invalid cursor', async () => {
+      const response = await request(app).get('/api/jobs?cursor=invalid');
+      expect(response.status).toBe(400);
+      expect(response.body).toHaveProperty('error', 'Invalid cursor');
+    });
+
+    it('should return facet counts ignoring the facet own filter', async () => {
+      const all = await request(app).get('/api/jobs?facets=platform,date');
+      expect(all.status).toBe(200);
+      expect(all.body.facets).toHaveProperty('platform');
+      expect(all.body.facets).toHaveProperty('date');
+      expect(all.body.facets).not.toHaveProperty('state');
+
+      const platform = all.body.facets.platform[0];
+      if (platform) {
+        const filtered = await request(app).get(
+          `/api/jobs?facets=platform&platform=${platform.value}`
+        );
+        expect(filtered.status).toBe(200);
+        expect(filtered.body.facets.platform).toEqual(all.body.facets.platform);
+        expect(filtered.body.total).toBe(platform.count);
+      }
+    });
+
+    it('should reject an unknown facet', async () => {
+      const response = await request(app).get('/api/jobs?facets=platform,salary');
+      expect(response.status).toBe(400);
+      expect(response.body.error).toHaveProperty('code', 'VALIDATION_ERROR');
+    });
+
+    it('should filter by several platforms', async () => {
+      const response = await request(app).get('/api/jobs?platform=seek,indeed&limit=50');
+      expect(response.status).toBe(200);
+      for (const job of response.body.data) {
+        expect(['seek', 'indeed']).toContain(job.platform);
+      }
+    });
+
+    it('should filter by score and date ranges', async () => {
+      const response = await request(app).get(
+        '/api/jobs?minScore=50&maxScore=80&dateFrom=2024-01-01&dateTo=2030-12-31&limit=50'
+      );
+      expect(response.status).toBe(200);
+      for (const job of response.body.data) {
+        expect(job.analysis.match_score).toBeGreaterThanOrEqual(50);
+        expect(job.analysis.match_score).toBeLessThanOrEqual(80);
+        expect(job.date >= '2024-01-01' && job.date <= '2030-12-31').toBe(true);
+      }
+    });
+
+    it('should rank keyword matches by relevance with highlights', async () => {
+      const response = await request(app).get('/api/jobs?q=engineer&sortBy=relevance&limit=20');
+      expect(response.status).toBe(200);
+      expect(response.body.nextCursor).toBeNull();
+
+      const scores = response.body.data.map((job: { search_score: number }) => job.search_score);
+      expect(scores).toEqual([...scores].sort((a, b) => b - a));
+      for (const job of response.body.data) {
+        expect(job).toHaveProperty('search_highlights');
+      }
+    });
+
+    it('should not fail on regex metacharacters in searches', async () => {
+      const response = await request(app).get(`/api/jobs?q=${encodeURIComponent('c++ (senior')}&location=(`);
+      expect(response.status).toBe(200);
+    });
+
+    it('should reject cursors when sorting by relevance', async () => {
+      const response = await request(app).get('/api/jobs?q=engineer&sortBy=relevance&cursor=');
+      expect(response.status).toBe(400);
+    });
+
+    it('should filter and sort by parsed salary', async () => {
+      const response = await request(app).get(
+        '/api/jobs?salaryMin=100000&salaryMax=200000&sortBy=salary&limit=50'
+      );
+      expect(response.status).toBe(200);
+      // Open bounds ("up to $150k", "from $90k") are missing and match any value
+      const tops = response.body.data.map(
+        (job: { salary: { annual_min?: number; annual_max?: number } }) => {
+          expect(job.salary.annual_max ?? Infinity).toBeGreaterThanOrEqual(100000);
+          expect(job.salary.annual_min ?? 0).toBeLessThanOrEqual(200000);
+          return job.salary.annual_max ?? -Infinity;
+        }
+      );
+      expect(tops).toEqual([...tops].sort((a, b) => b - a));
+    });
+
+    it('should reject unknown sort fields', async () => {
+      for (const sortBy of ['password', '$where', 'updated_at.$gt']) {
+        const response = await request(app).get(`/api/jobs?sortBy=${encodeURIComponent(sortBy)}`);
+        expect(response.status).toBe(400);
+      }
+    });
+
+    it('should reject an inverted salary range', async () => {
+      const response = await request(app).get('/api/jobs?salaryMin=150000&salaryMax=90000');
+      expect(response.status).toBe(400);
+    });
+
+    it('should group duplicate listings with the other platforms in alsoOn', async () => {
+      const filteredJobs = mongoose.connection
+        .getClient()
+        .db('job_scraper_filtered')
+        .collection('filtered_jobs');
+      const company = `Dedup Fixture ${Date.now()}`;
+      const clusterId = new mongoose.Types.ObjectId().toString();
+      const listing = (platform: string, applyLink: string) => ({
+        _id: new mongoose.Types.ObjectId(),
+        job_title: 'Backend Engineer',
+        company_name_normalized: company,
+        platform,
+        apply_link: applyLink,
+        date: '2026-10-01',
+        updated_at: new Date(),
+        dedup_cluster_id: clusterId,
+        analysis: { passed: true, match_score: 80 },
+      });
+      const seek = listing('seek', 'https://example.com/seek');
+      const linkedin = listing('linkedin', 'https://example.com/linkedin');
+      await filteredJobs.insertMany([seek, linkedin]);
+
+      try {
+        const query = encodeURIComponent(`company:"${company}"`);
+        const response = await request(app).get(`/api/jobs?groupDuplicates=true&query=${query}`);
+        expect(response.status).toBe(200);
+        expect(response.body.total).toBe(1);
+        expect(response.body.data).toHaveLength(1);
+
+        const [job] = response.body.data;
+        const other = job.platform === 'seek' ? linkedin : seek;
+        expect(job.dedup_cluster_id).toBe(clusterId);
+        expect(job.alsoOn).toEqual([{ platform: other.platform, apply_link: other.apply_link }]);
+      } finally {
+        await filteredJobs.deleteMany({ company_name_normalized: company });
+      }
+    });
+
+    it('should reject cursors when grouping duplicates', async () => {
+      const response = await request(app).get('/api/jobs?groupDuplicates=true&cursor=');
+      expect(response.status).toBe(400);
+    });
+
+    it('should filter with the query language', async () => {
+      const query = encodeURIComponent('platform:seek,indeed score>=50 posted:<30d');
+      const response = await request(app).get(`/api/jobs?query=${query}&limit=50`);
+      expect(response.status).toBe(200);
+      for (const job of response.body.data) {
+        expect(['seek', 'indeed']).toContain(job.platform);
+        expect(job.analysis.match_score).toBeGreaterThanOrEqual(50);
+      }
+    });
+
+    it('should report query language errors as validation errors', async () => {
+      const response = await request(app).get(`/api/jobs?query=${encodeURIComponent('react salary:100k')}`);
+      expect(response.status).toBe(400);
+      expect(response.body.error).toHaveProperty('code', 'VALIDATION_ERROR');
+      expect(response.body.error.details[0]).toMatchObject({
+        path: ['query'],
+        params: { position: 6 },
+      });
+    });
+
+    it('should apply location and keyword search together', async () => {
+      const response = await request(app).get('/api/jobs?location=Sydney&q=engineer&limit=50');
+      expect(response.status).toBe(200);
+      for (const job of response.body.data) {
+        expect(/Sydney/i.test(`${job.city} ${job.state} ${job.job_location}`)).toBe(true);
+      }
+    });
+
+    it('should reject invalid filter values', async () => {
+      const platform = await request(app).get('/api/jobs?platform=monster');
+      expect(platform.status).toBe(400);
+
+      const range = await request(app).get('/api/jobs?minScore=90&maxScore=10');
+      expect(range.status).toBe(400);
+
+      const date = await request(app).get('/api/jobs?dateFrom=01-02-2024');
+      expect(date.status).toBe(400);
+    });
   });
 
   describe('GET /api/jobs/:id', () => {
@@ -0,0 +1,92 @@
+import { JobSalary, parseSalary } from '../utils/salaryParser';
+
+/**
+ * Real-world salary phrasing from job ads, with the expected extraction
+ */
+const CORPUS: [string, Partial<JobSalary> | null][] = [
+  // Annual ranges
+  [
+    'Salary: $120k - $140k + super',
+    { min: 120000, max: 140000, period: 'year', includes_super: false, annual_max: 140000 },
+  ],
+  ['$120,000 - $140,000 per annum plus super', { min: 120000, max: 140000, period: 'year' }],
+  ['Paying $120K-$140K base + 11.5% super', { min: 120000, max: 140000, includes_super: false }],
+  ['$120-140k + super + bonus', { min: 120000, max: 140000, period: 'year' }],
+  ['Salary $95,000 to $105,000 p.a.', { min: 95000, max: 105000, period: 'year' }],
+  ['AUD 150,000 - 170,000 package', { min: 150000, max: 170000, includes_super: true }],
+  [
+    '$134,400 including super',
+    { min: 134400, max: 134400, includes_super: true, annual_min: 120000, annual_max: 120000 },
+  ],
+  ['$130k inc. super', { includes_super: true, annual_max: 116071 }],
+  ['Total remuneration package of $180,000', { includes_super: true }],
+  ['An attractive salary of $110,000 excl. super', { max: 110000, includes_super: false }],
+  // Open-ended
+  ['Up to $150k + super', { max: 150000, annual_max: 150000 }],
+  ['Salary from $90,000 plus super', { min: 90000, annual_min: 90000 }],
+  // Daily and hourly rates
+  ['$850 per day', { min: 850, max: 850, period: 'day', annual_max: 221000 }],
+  ['Daily rate: $900 - $1,000 inc super', { min: 900, max: 1000, period: 'day' }],
+  ['$800-$900 p.d. + super, 6 month contract', { min: 800, max: 900, period: 'day' }],
+  ['$1,100/day outside IR35', { period: 'day', max: 1100 }],
+  ['$55 - $65 per hour + super', { min: 55, max: 65, period: 'hour', annual_min: 108680 }],
+  ['$60/hr', { max: 60, period: 'hour' }],
+  ['$45.50 ph plus super', { max: 45.5, period: 'hour' }],
+  ['Hourly rate $70', { max: 70, period: 'hour' }],
+  // Weekly and monthly
+  ['$2,000 per week', { max: 2000, period: 'week', annual_max: 104000 }],
+  ['$9,000 per month', { max: 9000, period: 'month', annual_max: 108000 }],
+  // Currencies
+  ['US$150,000 - US$180,000', { currency: 'USD', min: 150000, annual_min: 228000 }],
+  ['NZ$110k', { currency: 'NZD', annual_max: 101200 }],
+  ['£70,000 per annum', { currency: 'GBP', annual_max: 136500 }],
+  // Sentence boundaries: the next sentence's "daily" is not the pay period
+  ['Base salary $120k. Daily standups with the team.', { period: 'year', max: 120000 }],
+  // Not salaries
+  ['$5,000 sign-on bonus for the right candidate', null],
+  ['Manage a $2M budget across three teams', null],
+  ['ASX-listed company with $1.5 billion in revenue', null],
+  ['We process $50 transactions in milliseconds', null],
+  ['Salary negotiable, DOE', null],
+  ['Competitive salary and great culture', null],
+];
+
+describe('Salary parser', () => {
+  it.each(CORPUS)('should parse %j', (text, expected) => {
+    const salary = parseSalary('', text);
+
+    if (expected === null) {
+      expect(salary).toBeNull();
+    } else {
+      expect(salary).toMatchObject(expected);
+    }
+  });
+
+  it('should leave the open bound of "up to" and "from" salaries out', () => {
+    const upTo = parseSalary('', 'Up to $150k + super');
+    expect(upTo).not.toHaveProperty('min');
+    expect(upTo).not.toHaveProperty('annual_min');
+
+    const from = parseSalary('', 'Salary from $90,000 plus super');
+    expect(from).not.toHaveProperty('max');
+    expect(from).not.toHaveProperty('annual_max');
+  });
+
+  it('should prefer a salary in the title over the description', () => {
+    expect(
+      parseSalary('Data Engineer - $700 per day', 'Salary $150,000 for permanent roles')
+    ).toMatchObject({ period: 'day', max: 700 });
+  });
+
+  it('should default to AUD and convert to annual AUD excluding super', () => {
+    expect(parseSalary('', '$112,000 package')).toEqual({
+      min: 112000,
+      max: 112000,
+      currency: 'AUD',
+      period: 'year',
+      includes_super: true,
+      annual_min: 100000,
+      annual_max: 100000,
+    });
+  });
+});
@@ -0,0 +1,346 @@
+import request from 'supertest';
+import mongoose from 'mongoose';
+import app from '../index';
+import { connectDatabase, disconnectDatabase } from '../config/database';
+import User from '../models/User';
+import SavedSearch from '../models/SavedSearch';
+import AlertDelivery from '../models/AlertDelivery';
+import JobBlock from '../models/JobBlock';
+import filteredJobService, { IFilteredJob } from '../models/FilteredJob';
+import EmailService from '../services/EmailService';
+import JobAlertService, { JobAlertService as AlertRunner } from '../services/JobAlertService';
+import { generateUnsubscribeToken } from '../utils/jwt';
+import { loginTestUser, resetTestUsers, restoreTestUsers } from './helpers/testUsers';
+
+/**
+ * Saved Search API Integration Tests
+ */
+describe('Saved Search API', () => {
+  const userEmail = 'searcher@example.com';
+
+  let authToken: string;
+
+  const createSearch = (body: object, token = authToken) =>
+    request(app).post('/api/saved-searches').set('Authorization', `Bearer ${token}`).send(body);
+
+  beforeAll(async () => {
+    await connectDatabase();
+  }, 30000);
+
+  afterAll(async () => {
+    await disconnectDatabase();
+  }, 30000);
+
+  beforeEach(async () => {
+    await resetTestUsers();
+    await SavedSearch.deleteMany({});
+    await AlertDelivery.deleteMany({});
+    await JobBlock.deleteMany({});
+
+    authToken = await loginTestUser(userEmail);
+  });
+
+  afterEach(() => {
+    restoreTestUsers();
+  });
+
+  it('should require authentication', async () => {
+    const response = await request(app).get('/api/saved-searches');
+    expect(response.status).toBe(401);
+  });
+
+  it('should create, list, update and delete saved searches', async () => {
+    const created = await createSearch({
+      name: 'Remote TypeScript',
+      query: { q: 'typescript', work_arrangement: ['remote'], min_score: 60 },
+    });
+    expect(created.status).toBe(201);
+    expect(created.body.data.savedSearch).toMatchObject({
+      name: 'Remote TypeScript',
+      query: { q: 'typescript', work_arrangement: ['remote'], min_score: 60 },
+      newCount: 0,
+    });
+    const id = created.body.data.savedSearch.id;
+
+    const list = await request(app)
+      .get('/api/saved-searches')
+      .set('Authorization', `Bearer ${authToken}`);
+    expect(list.body.data.savedSearches).toHaveLength(1);
+    expect(list.body.data.savedSearches[0]).toHaveProperty('newCount');
+
+    const updated = await request(app)
+      .patch(`/api/saved-searches/${id}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ name: 'Remote TS' });
+    expect(updated.status).toBe(200);
+    expect(updated.body.data.savedSearch).toHaveProperty('name', 'Remote TS');
+
+    const deleted = await request(app)
+      .delete(`/api/saved-searches/${id}`)
+      .set('Authorization', `Bearer ${authToken}`);
+    expect(deleted.status).toBe(200);
+    expect(await SavedSearch.countDocuments()).toBe(0);
+  });
+
+  it('should reject unknown filter fields', async () => {
+    const response = await createSearch({ name: 'Bad', query: { salary: 100000 } });
+    expect(response.status).toBe(400);
+    expect(response.body.error).toHaveProperty('code', 'VALIDATION_ERROR');
+  });
+
+  it('should run a saved search and reset its new count', async () => {
+    const created = await createSearch({ name: 'Seek', query: { platform: ['seek'] } });
+    const id = created.body.data.savedSearch.id;
+
+    // Pretend the search was last viewed long ago
+    await SavedSearch.updateOne({ _id: id }, { lastViewedAt: new Date(0) });
+
+    const response = await request(app)
+      .get(`/api/saved-searches/${id}/jobs?limit=5`)
+      .set('Authorization', `Bearer ${authToken}`);
+    expect(response.status).toBe(200);
+    expect(Array.isArray(response.body.data.jobs)).toBe(true);
+    expect(response.body.data).toHaveProperty('total');
+    expect(response.body.data.savedSearch).toHaveProperty('newCount', 0);
+    for (const job of response.body.data.jobs) {
+      expect(job.platform).toBe('seek');
+    }
+
+    const stored = await SavedSearch.findById(id);
+    expect(stored?.lastViewedAt.getTime()).toBeGreaterThan(0);
+  });
+
+  it("should not expose another user's saved searches", async () => {
+    const created = await createSearch({ name: 'Mine', query: {} });
+    const otherToken = await loginTestUser('other@example.com');
+
+    const response = await request(app)
+      .get(`/api/saved-searches/${created.body.data.savedSearch.id}/jobs`)
+      .set('Authorization', `Bearer ${otherToken}`);
+    expect(response.status).toBe(404);
+    expect(response.body.error).toHaveProperty('code', 'NOT_FOUND');
+  });
+
+  it('should leave blocked companies out of saved search runs', async () => {
+    const getJobsSpy = jest
+      .spyOn(filteredJobService, 'getJobs')
+      .mockResolvedValue({ data: [], limit: 10, nextCursor: null });
+    try {
+      const created = await createSearch({ name: 'Engineering', query: { q: 'engineer' } });
+      await request(app)
+        .post('/api/me/blocklist')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ type: 'company', value: 'Globex' });
+
+      const response = await request(app)
+        .get(`/api/saved-searches/${created.body.data.savedSearch.id}/jobs`)
+        .set('Authorization', `Bearer ${authToken}`);
+      expect(response.status).toBe(200);
+      expect(getJobsSpy).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          q: 'engineer',
+          exclude: { jobIds: [], companies: ['globex'], keywords: [] },
+        })
+      );
+    } finally {
+      getJobsSpy.mockRestore();
+    }
+  });
+
+  describe('Job alerts', () => {
+    const job = (id: string, title: string) =>
+      ({
+        _id: new mongoose.Types.ObjectId(id),
+        job_title: title,
+        company_name_normalized: 'Acme',
+        job_location: 'Sydney NSW',
+        apply_link: 'https://example.com/apply',
+        analysis: { match_score: 82 },
+      }) as unknown as IFilteredJob;
+
+    let digestSpy: jest.SpyInstance;
+    let newJobsSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+      digestSpy = jest.spyOn(EmailService, 'sendJobAlertDigest').mockResolvedValue(undefined);
+      newJobsSpy = jest
+        .spyOn(filteredJobService, 'getNewJobs')
+        .mockResolvedValue([
+          job('64b000000000000000000001', 'Backend Engineer'),
+          job('64b000000000000000000002', 'Platform Engineer'),
+        ]);
+    });
+
+    afterEach(() => {
+      digestSpy.mockRestore();
+      newJobsSpy.mockRestore();
+    });
+
+    it('should email new jobs once after a pipeline run', async () => {
+      const created = await createSearch({
+        name: 'Engineering',
+        query: { q: 'engineer' },
+        alertFrequency: 'instant',
+      });
+
+      expect(await JobAlertService.sendPipelineAlerts()).toBe(1);
+      expect(digestSpy).toHaveBeenCalledTimes(1);
+      expect(newJobsSpy.mock.lastCall[0].exclude).toBeUndefined();
+      const [email, sections] = digestSpy.mock.calls[0];
+      expect(email).toBe(userEmail);
+      expect(sections[0]).toMatchObject({ searchName: 'Engineering', moreCount: 0 });
+      expect(sections[0].jobs).toHaveLength(2);
+      expect(sections[0].jobs[0]).toMatchObject({
+        title: 'Backend Engineer',
+        company: 'Acme',
+        matchScore: 82,
+        applyLink: 'https://example.com/apply',
+      });
+
+      // The same jobs are never alerted again
+      await SavedSearch.updateOne(
+        { _id: created.body.data.savedSearch.id },
+        { $unset: { lastAlertedAt: 1 } }
+      );
+      expect(await JobAlertService.sendPipelineAlerts()).toBe(0);
+      expect(digestSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it('should parse salaries of new jobs before alerting salary searches', async () => {
+      newJobsSpy.mockRestore();
+      const filteredJobs = mongoose.connection
+        .getClient()
+        .db('job_scraper_filtered')
+        .collection('filtered_jobs');
+      const company = `Salary Alert Fixture ${Date.now()}`;
+
+      await createSearch({
+        name: 'Well paid',
+        query: { company, salary_min: 150000 },
+        alertFrequency: 'instant',
+      });
+      // Added after the search was created, with no parsed salary yet
+      await filteredJobs.insertOne({
+        _id: new mongoose.Types.ObjectId(),
+        job_title: 'Staff Engineer',
+        job_description: 'Salary $180k - $200k + super',
+        company_name_normalized: company,
+        apply_link: 'https://example.com/apply',
+        updated_at: new Date(),
+        analysis: { passed: true, match_score: 90 },
+      });
+
+      try {
+        expect(await JobAlertService.sendPipelineAlerts()).toBe(1);
+        const [, sections] = digestSpy.mock.calls[0];
+        expect(sections[0].jobs).toEqual([expect.objectContaining({ title: 'Staff Engineer' })]);
+      } finally {
+        await filteredJobs.deleteMany({ company_name_normalized: company });
+      }
+    });
+
+    it('should count new jobs beyond the candidate limit in moreCount', async () => {
+      const candidates = Array.from({ length: 100 }, (_, i) =>
+        job(new mongoose.Types.ObjectId().toString(), `Engineer ${i}`)
+      );
+      newJobsSpy.mockResolvedValue(candidates);
+      const countSpy = jest.spyOn(filteredJobService, 'countNewJobs').mockResolvedValue(250);
+      try {
+        await createSearch({ name: 'Engineering', query: {}, alertFrequency: 'instant' });
+
+        expect(await JobAlertService.sendPipelineAlerts()).toBe(1);
+        const [, sections] = digestSpy.mock.calls[0];
+        expect(sections[0].jobs).toHaveLength(10);
+        expect(sections[0].moreCount).toBe(240);
+      } finally {
+        countSpy.mockRestore();
+      }
+    });
+
+    it('should run scheduled and pipeline alerts independently', async () => {
+      await createSearch({ name: 'Instant', query: {}, alertFrequency: 'instant' });
+      const created = await createSearch({ name: 'Daily', query: {}, alertFrequency: 'daily' });
+      await SavedSearch.updateOne(
+        { _id: created.body.data.savedSearch.id },
+        { lastAlertedAt: new Date(Date.now() - 25 * 60 * 60 * 1000) }
+      );
+
+      const [due, pipeline] = await Promise.all([
+        JobAlertService.sendDueAlerts(),
+        JobAlertService.sendPipelineAlerts(),
+      ]);
+      expect(due).toBe(1);
+      expect(pipeline).toBe(1);
+    });
+
+    it('should leave blocked companies out of alerts', async () => {
+      await createSearch({ name: 'Engineering', query: {}, alertFrequency: 'instant' });
+      await request(app)
+        .post('/api/me/blocklist')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ type: 'company', value: 'Globex' });
+
+      await JobAlertService.sendPipelineAlerts();
+      expect(newJobsSpy.mock.lastCall[0].exclude).toEqual({
+        jobIds: [],
+        companies: ['globex'],
+        keywords: [],
+      });
+    });
+
+    it('should not email a job twice from overlapping runs', async () => {
+      await createSearch({ name: 'Engineering', query: {}, alertFrequency: 'instant' });
+
+      // Separate instances stand in for runs in different processes
+      const sent = await Promise.all([
+        new AlertRunner().sendPipelineAlerts(),
+        new AlertRunner().sendPipelineAlerts(),
+      ]);
+      expect(sent[0] + sent[1]).toBeGreaterThanOrEqual(1);
+      const emailed = digestSpy.mock.calls.flatMap(([, sections]) =>
+        sections.flatMap((section: { jobs: { title: string }[] }) => section.jobs)
+      );
+      expect(emailed.map(job => job.title).sort()).toEqual(['Backend Engineer', 'Platform Engineer']);
+      expect(await AlertDelivery.countDocuments()).toBe(2);
+    });
+
+    it('should only send scheduled digests once their period has passed', async () => {
+      const created = await createSearch({
+        name: 'Daily',
+        query: {},
+        alertFrequency: 'daily',
+      });
+      const id = created.body.data.savedSearch.id;
+
+      expect(await JobAlertService.sendDueAlerts()).toBe(0);
+
+      const yesterday = new Date(Date.now() - 25 * 60 * 60 * 1000);
+      await SavedSearch.updateOne({ _id: id }, { lastAlertedAt: yesterday });
+      expect(await JobAlertService.sendDueAlerts()).toBe(1);
+
+      const stored = await SavedSearch.findById(id);
+      expect(stored?.lastAlertedAt?.getTime()).toBeGreaterThan(yesterday.getTime());
+    });
+
+    it('should turn off alerts with an unsubscribe token', async () => {
+      const created = await createSearch({
+        name: 'Instant',
+        query: {},
+        alertFrequency: 'instant',
+      });
+      const { id } = created.body.data.savedSearch;
+      const user = await User.findOne({ email: userEmail });
+      const token = generateUnsubscribeToken(user!._id.toString(), id);
+
+      const response = await request(app).post(
+        `/api/saved-searches/alerts/unsubscribe?token=${token}`
+      );
+      expect(response.status).toBe(200);
+      expect((await SavedSearch.findById(id))?.alertFrequency).toBe('off');
+
+      const invalid = await request(app).post('/api/saved-searches/alerts/unsubscribe?token=nope');
+      expect(invalid.status).toBe(400);
+      expect(invalid.body.error).toHaveProperty('code', 'INVALID_TOKEN');
+    });
+  });
+});
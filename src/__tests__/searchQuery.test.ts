@@ -0,0 +1,57 @@
+import {
+  buildExclusionRegExp,
+  buildSnippet,
+  hasPositiveTerms,
+  highlightField,
+  parseSearchQuery,
+  toTextSearch,
+} from '../utils/searchQuery';
+
+describe('Search queries', () => {
+  it('should parse terms, phrases and exclusions', () => {
+    expect(parseSearchQuery('"react native" -php typescript -"cold calling"')).toEqual({
+      terms: ['typescript'],
+      phrases: ['react native'],
+      excludedTerms: ['php'],
+      excludedPhrases: ['cold calling'],
+    });
+  });
+
+  it('should treat an unterminated quote as a phrase', () => {
+    expect(parseSearchQuery('"senior engineer').phrases).toEqual(['senior engineer']);
+  });
+
+  it('should build a $text search string without stray quotes', () => {
+    const parsed = parseSearchQuery('node" "react native" -php (');
+
+    expect(toTextSearch(parsed)).toBe('"react native" node ( -php');
+  });
+
+  it('should handle queries with only exclusions', () => {
+    const parsed = parseSearchQuery('-php -"c++"');
+
+    expect(hasPositiveTerms(parsed)).toBe(false);
+    const regex = buildExclusionRegExp(parsed) as RegExp;
+    expect(regex.test('Senior C++ developer')).toBe(true);
+    expect(regex.test('PHPUnit tester')).toBe(false);
+  });
+
+  it('should highlight matches and escape HTML', () => {
+    const parsed = parseSearchQuery('engineer');
+
+    expect(highlightField('<b>Engineering</b> Lead', parsed)).toBe(
+      '&lt;b&gt;<mark>Engineering</mark>&lt;/b&gt; Lead'
+    );
+    expect(highlightField('Product Manager', parsed)).toBeNull();
+  });
+
+  it('should build a snippet around the first match', () => {
+    const text = `${'Lorem ipsum dolor sit amet. '.repeat(20)}We use React Native daily. ${'More text. '.repeat(30)}`;
+    const snippet = buildSnippet(text, parseSearchQuery('"react native"'), 100) as string;
+
+    expect(snippet).toContain('<mark>React Native</mark>');
+    expect(snippet.startsWith('…')).toBe(true);
+    expect(snippet.endsWith('…')).toBe(true);
+    expect(buildSnippet(text, parseSearchQuery('kotlin'))).toBeNull();
+  });
+});
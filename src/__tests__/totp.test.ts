@@ -0,0 +1,101 @@
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUri,
+  generateTotpSecret,
+  hotp,
+  totp,
+  verifyTotp,
+} from '../utils/totp';
+
+describe('TOTP utilities', () => {
+  // Shared secret from RFC 4226 / RFC 6238 test vectors
+  const rfcSecret = Buffer.from('12345678901234567890', 'ascii');
+  const rfcSecretBase32 = base32Encode(rfcSecret);
+
+  describe('base32', () => {
+    it('should encode RFC 4648 test vectors', () => {
+      expect(base32Encode(Buffer.from('f'))).toBe('MY');
+      expect(base32Encode(Buffer.from('foo'))).toBe('MZXW6');
+      expect(base32Encode(Buffer.from('foobar'))).toBe('MZXW6YTBOI');
+    });
+
+    it('should round-trip arbitrary bytes', () => {
+      const bytes = Buffer.from([0, 1, 2, 250, 251, 252, 253, 254, 255]);
+      expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+    });
+
+    it('should ignore case, padding and spaces when decoding', () => {
+      expect(base32Decode('mzxw 6ytb oi======').toString()).toBe('foobar');
+    });
+
+    it('should reject invalid characters', () => {
+      expect(() => base32Decode('MZXW1')).toThrow('Invalid base32 character');
+    });
+  });
+
+  describe('hotp', () => {
+    it('should match RFC 4226 test vectors', () => {
+      const expected = [
+        '755224', '287082', '359152', '969429', '338314',
+        '254676', '287922', '162583', '399871', '520489',
+      ];
+      expected.forEach((code, counter) => {
+        expect(hotp(rfcSecret, counter)).toBe(code);
+      });
+    });
+  });
+
+  describe('totp', () => {
+    it('should match RFC 6238 SHA-1 test vectors', () => {
+      const vectors: [number, string][] = [
+        [59, '94287082'],
+        [1111111109, '07081804'],
+        [1111111111, '14050471'],
+        [1234567890, '89005924'],
+        [2000000000, '69279037'],
+        [20000000000, '65353130'],
+      ];
+      for (const [seconds, code] of vectors) {
+        expect(totp(rfcSecretBase32, { time: seconds * 1000, digits: 8 })).toBe(code);
+      }
+    });
+  });
+
+  describe('verifyTotp', () => {
+    const time = 1700000000 * 1000;
+    const secret = generateTotpSecret();
+
+    it('should accept the current code and return its time step', () => {
+      const code = totp(secret, { time });
+      expect(verifyTotp(secret, code, { time })).toBe(Math.floor(time / 30000));
+    });
+
+    it('should accept codes within the drift window', () => {
+      const previous = totp(secret, { time: time - 30 * 1000 });
+      const next = totp(secret, { time: time + 30 * 1000 });
+      expect(verifyTotp(secret, previous, { time })).not.toBeNull();
+      expect(verifyTotp(secret, next, { time })).not.toBeNull();
+    });
+
+    it('should reject codes outside the drift window', () => {
+      const old = totp(secret, { time: time - 5 * 60 * 1000 });
+      expect(verifyTotp(secret, old, { time })).toBeNull();
+    });
+
+    it('should reject malformed codes', () => {
+      expect(verifyTotp(secret, '12345', { time })).toBeNull();
+      expect(verifyTotp(secret, 'abcdef', { time })).toBeNull();
+    });
+  });
+
+  describe('buildOtpauthUri', () => {
+    it('should build an otpauth URI with issuer and account', () => {
+      const uri = buildOtpauthUri('JBSWY3DPEHPK3PXP', 'jane@example.com', '491JobSeeker');
+      expect(uri).toBe(
+        'otpauth://totp/491JobSeeker%3Ajane%40example.com' +
+          '?secret=JBSWY3DPEHPK3PXP&issuer=491JobSeeker&algorithm=SHA1&digits=6&period=30'
+      );
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { Response, NextFunction } from 'express';
+import { z } from 'zod';
+import AuthService, { AuthError } from '../services/AuthService';
+import AuthEventService, { IAuthEventQuery } from '../services/AuthEventService';
+import { USER_ROLES, UserRole } from '../models/User';
+import { AUTH_EVENT_OUTCOMES, AUTH_EVENT_TYPES } from '../models/AuthEvent';
+import { AuthRequest } from '../middleware/authMiddleware';
+
+/**
+ * Request validation schemas
+ */
+export const listUsersSchema = z.object({
+  role: z.enum(USER_ROLES).optional(),
+  page: z.coerce.number().int().min(1).optional(),
+  limit: z.coerce.number().int().min(1).optional(),
+});
+
+export const listAuthEventsSchema = z
+  .object({
+    userId: z.string().regex(/^[a-f\d]{24}$/i, 'Invalid user id').optional(),
+    type: z.enum(AUTH_EVENT_TYPES).optional(),
+    outcome: z.enum(AUTH_EVENT_OUTCOMES).optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    page: z.coerce.number().int().min(1).optional(),
+    limit: z.coerce.number().int().min(1).optional(),
+  })
+  .refine(query => !query.from || !query.to || query.from <= query.to, {
+    message: '"from" must not be after "to"',
+  });
+
+export const setRoleSchema = z.object({
+  role: z.enum(USER_ROLES),
+});
+
+/**
+ * Admin Controller
+ * Handles administrative HTTP requests (admin role only)
+ */
+export class AdminController {
+  /**
+   * List users
+   * GET /api/admin/users
+   */
+  async listUsers(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { role, page, limit } = req.query as {
+        role?: UserRole;
+        page?: number;
+        limit?: number;
+      };
+
+      const result = await AuthService.listUsers({ role, page, limit });
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Query the authentication audit log
+   * GET /api/admin/auth-events
+   */
+  async listAuthEvents(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const result = await AuthEventService.query(req.query as IAuthEventQuery);
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Change a user's role
+   * PATCH /api/admin/users/:id/role
+   */
+  async setUserRole(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = Array.isArray(id) ? id[0] : id;
+      const { role } = req.body;
+
+      // Prevent admins from locking themselves out
+      if (userId === req.user?.userId && role !== 'admin') {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'CANNOT_DEMOTE_SELF',
+            message: 'You cannot remove your own admin role',
+          },
+        });
+        return;
+      }
+
+      const user = await AuthService.setUserRole(userId, role);
+
+      res.status(200).json({
+        success: true,
+        data: { user },
+      });
+    } catch (error) {
+      if (error instanceof AuthError) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+          },
+        });
+        return;
+      }
+      next(error);
+    }
+  }
+}
+
+// Export singleton instance
+export default new AdminController();
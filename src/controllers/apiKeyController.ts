@@ -0,0 +1,138 @@
+import { Response, NextFunction } from 'express';
+import { z } from 'zod';
+import ApiKeyService from '../services/ApiKeyService';
+import { AuthError } from '../services/AuthService';
+import { ServiceError } from '../utils/errors';
+import { API_KEY_SCOPES } from '../models/ApiKey';
+import { AuthRequest } from '../middleware/authMiddleware';
+
+/**
+ * Request validation schemas
+ */
+export const createApiKeySchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1, 'At least one scope is required'),
+});
+
+/**
+ * API Key Controller
+ * Handles personal API key management for the current user
+ */
+export class ApiKeyController {
+  /**
+   * Create an API key
+   * POST /api/auth/api-keys
+   */
+  async createKey(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        });
+        return;
+      }
+
+      const { name, scopes } = req.body;
+
+      const result = await ApiKeyService.createKey(req.user.userId, name, scopes);
+
+      res.status(201).json({
+        success: true,
+        data: {
+          ...result,
+          message: 'Copy this key now. It will not be shown again.',
+        },
+      });
+    } catch (error) {
+      if (error instanceof ServiceError) {
+        res.status(error.status).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+          },
+        });
+        return;
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * List the current user's API keys
+   * GET /api/auth/api-keys
+   */
+  async listKeys(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        });
+        return;
+      }
+
+      const apiKeys = await ApiKeyService.listKeys(req.user.userId);
+
+      res.status(200).json({
+        success: true,
+        data: { apiKeys },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Revoke an API key
+   * DELETE /api/auth/api-keys/:id
+   */
+  async revokeKey(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        });
+        return;
+      }
+
+      const { id } = req.params;
+      const keyId = Array.isArray(id) ? id[0] : id;
+
+      await ApiKeyService.revokeKey(req.user.userId, keyId);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          message: 'API key revoked.',
+        },
+      });
+    } catch (error) {
+      if (error instanceof AuthError) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+          },
+        });
+        return;
+      }
+      next(error);
+    }
+  }
+}
+
+// Export singleton instance
+export default new ApiKeyController();
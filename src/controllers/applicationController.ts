@@ -0,0 +1,291 @@
+import { Response, NextFunction } from 'express';
+import { z } from 'zod';
+import ApplicationService from '../services/ApplicationService';
+import { APPLICATION_STATUSES } from '../models/Application';
+import { AuthRequest } from '../middleware/authMiddleware';
+import { ServiceError } from '../utils/errors';
+import { commaList } from './filteredJobController';
+
+/**
+ * Request validation schemas
+ */
+const contactSchema = z
+  .object({
+    name: z.string().trim().min(1, 'Contact name is required').max(100),
+    role: z.string().trim().max(100).optional(),
+    email: z.string().trim().email('Invalid email address').optional(),
+    phone: z.string().trim().max(50).optional(),
+    notes: z.string().max(2000).optional(),
+  })
+  .strict();
+
+const applicationDetailsSchema = z.object({
+  status: z.enum(APPLICATION_STATUSES).optional(),
+  notes: z.string().max(10000).nullable().optional(),
+  contacts: z.array(contactSchema).max(20, 'At most 20 contacts').optional(),
+  nextAction: z.string().trim().min(1).max(200).nullable().optional(),
+  nextActionDate: z.coerce.date().nullable().optional(),
+});
+
+export const createApplicationSchema = applicationDetailsSchema
+  .extend({
+    jobId: z.string().min(1).optional(),
+    job: z
+      .object({
+        title: z.string().trim().min(1, 'Job title is required').max(200),
+        company: z.string().trim().min(1, 'Company is required').max(200),
+        location: z.string().trim().max(200).optional(),
+        applyLink: z
+          .string()
+          .trim()
+          .regex(/^https?:\/\/\S+$/i, 'Must be an http(s) URL')
+          .max(2000)
+          .optional(),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict()
+  .refine(input => !input.jobId !== !input.job, {
+    message: 'Provide either jobId or job',
+  });
+
+export const updateApplicationSchema = applicationDetailsSchema
+  .strict()
+  .refine(update => Object.values(update).some(value => value !== undefined), {
+    message: 'Nothing to update',
+  });
+
+export const listApplicationsQuerySchema = z.object({
+  status: commaList(z.enum(APPLICATION_STATUSES)).optional(),
+  page: z.coerce.number().int().min(1).optional(),
+  limit: z.coerce.number().int().min(1).optional(),
+});
+
+/**
+ * Get a single route parameter
+ */
+function getRouteParam(value: string | string[]): string {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Application Controller
+ * Handles the current user's application tracker
+ */
+export class ApplicationController {
+  /**
+   * Start tracking an application
+   * POST /api/applications
+   */
+  async createApplication(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        this.sendUnauthorized(res);
+        return;
+      }
+
+      const application = await ApplicationService.createApplication(req.user.userId, req.body);
+
+      if (!application) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Job not found',
+          },
+        });
+        return;
+      }
+
+      res.status(201).json({
+        success: true,
+        data: { application },
+      });
+    } catch (error) {
+      if (error instanceof ServiceError) {
+        res.status(error.status).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+          },
+        });
+        return;
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * List applications
+   * GET /api/applications
+   */
+  async listApplications(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        this.sendUnauthorized(res);
+        return;
+      }
+
+      const { status, page, limit } = req.query as z.infer<typeof listApplicationsQuerySchema>;
+
+      const result = await ApplicationService.listApplications(req.user.userId, {
+        status,
+        page,
+        limit,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Count applications per status
+   * GET /api/applications/summary
+   */
+  async getSummary(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        this.sendUnauthorized(res);
+        return;
+      }
+
+      const summary = await ApplicationService.getSummary(req.user.userId);
+
+      res.status(200).json({
+        success: true,
+        data: summary,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get an application
+   * GET /api/applications/:id
+   */
+  async getApplication(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        this.sendUnauthorized(res);
+        return;
+      }
+
+      const application = await ApplicationService.getApplication(
+        req.user.userId,
+        getRouteParam(req.params.id)
+      );
+
+      if (!application) {
+        this.sendNotFound(res);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: { application },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Update an application's status, notes, contacts or next action
+   * PATCH /api/applications/:id
+   */
+  async updateApplication(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        this.sendUnauthorized(res);
+        return;
+      }
+
+      const application = await ApplicationService.updateApplication(
+        req.user.userId,
+        getRouteParam(req.params.id),
+        req.body
+      );
+
+      if (!application) {
+        this.sendNotFound(res);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: { application },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Stop tracking an application
+   * DELETE /api/applications/:id
+   */
+  async deleteApplication(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        this.sendUnauthorized(res);
+        return;
+      }
+
+      const deleted = await ApplicationService.deleteApplication(
+        req.user.userId,
+        getRouteParam(req.params.id)
+      );
+
+      if (!deleted) {
+        this.sendNotFound(res);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: {
+          message: 'Application deleted.',
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Send the response for a missing user
+   */
+  private sendUnauthorized(res: Response): void {
+    res.status(401).json({
+      success: false,
+      error: {
+        code: 'UNAUTHORIZED',
+        message: 'Authentication required',
+      },
+    });
+  }
+
+  /**
+   * Send the response for a missing application
+   */
+  private sendNotFound(res: Response): void {
+    res.status(404).json({
+      success: false,
+      error: {
+        code: 'NOT_FOUND',
+        message: 'Application not found',
+      },
+    });
+  }
+}
+
+// Export singleton instance
+export default new ApplicationController();
@@ -1,8 +1,16 @@
 import { Response, NextFunction } from 'express';
 import { z } from 'zod';
-import AuthService, { AuthError } from '../services/AuthService';
+import AuthService, { AuthError, IRequestContext } from '../services/AuthService';
 import EmailService from '../services/EmailService';
+import AccountService from '../services/AccountService';
+import AuthEventService from '../services/AuthEventService';
 import { AuthRequest } from '../middleware/authMiddleware';
+import { VISA_TYPES } from '../models/User';
+
+/**
+ * LinkedIn profile URL, e.g. https://www.linkedin.com/in/jane-doe
+ */
+const LINKEDIN_URL_REGEX = /^https:\/\/([a-z]{2,3}\.)?linkedin\.com\/in\/[\w\-%]+\/?$/i;
 
 /**
  * Request validation schemas
@@ -22,10 +30,149 @@ export const loginSchema = z.object({
   password: z.string().min(1, 'Password is required'),
 });
 
+export const requestLoginCodeSchema = z.object({
+  email: z.string().email('Invalid email address'),
+});
+
+export const verifyLoginCodeSchema = z.object({
+  email: z.string().email('Invalid email address'),
+  code: z.string().regex(/^\d{6}$/, 'Login code must be 6 digits'),
+});
+
 export const resendVerificationSchema = z.object({
   email: z.string().email('Invalid email address'),
 });
 
+export const refreshTokenSchema = z.object({
+  refreshToken: z.string().min(1, 'Refresh token is required'),
+});
+
+export const logoutSchema = z
+  .object({
+    refreshToken: z.string().min(1).optional(),
+  })
+  .optional();
+
+export const updateProfileSchema = z
+  .object({
+    name: z.string().trim().min(1, 'Name cannot be empty').max(100).nullable().optional(),
+    visaType: z.enum(VISA_TYPES).nullable().optional(),
+    visaExpiry: z.coerce.date().nullable().optional(),
+    linkedInUrl: z
+      .string()
+      .trim()
+      .regex(LINKEDIN_URL_REGEX, 'Must be a LinkedIn profile URL (https://www.linkedin.com/in/...)')
+      .nullable()
+      .optional(),
+    preferredLocation: z
+      .array(z.string().trim().min(1, 'Location cannot be empty').max(100))
+      .max(10, 'At most 10 preferred locations')
+      .transform(locations => [...new Set(locations)])
+      .nullable()
+      .optional(),
+  })
+  .strict()
+  .refine(updates => Object.keys(updates).length > 0, {
+    message: 'At least one profile field is required',
+  });
+
+export const changeEmailSchema = z.object({
+  newEmail: z.string().email('Invalid email address'),
+  password: z.string().min(1, 'Password is required'),
+});
+
+export const confirmEmailChangeSchema = z.object({
+  code: z.string().regex(/^\d{6}$/, 'Verification code must be 6 digits'),
+});
+
+export const deleteAccountSchema = z.object({
+  password: z.string().min(1, 'Password is required'),
+});
+
+export const activityQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).optional(),
+  limit: z.coerce.number().int().min(1).optional(),
+});
+
+export const forgotPasswordSchema = z.object({
+  email: z.string().email('Invalid email address'),
+});
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1, 'Reset token is required'),
+  password: z.string().min(8, 'Password must be at least 8 characters'),
+});
+
+const totpCodeSchema = z.string().regex(/^\d{6}$/, 'Authentication code must be 6 digits');
+
+/**
+ * Second factor: exactly one of a TOTP code or a recovery code
+ */
+const secondFactorFields = {
+  code: totpCodeSchema.optional(),
+  recoveryCode: z.string().trim().min(1).max(32).optional(),
+};
+
+const hasOneSecondFactor = (factor: { code?: string; recoveryCode?: string }) =>
+  Boolean(factor.code) !== Boolean(factor.recoveryCode);
+
+const secondFactorMessage = { message: 'Provide either an authentication code or a recovery code' };
+
+export const loginTwoFactorSchema = z
+  .object({
+    challengeToken: z.string().min(1, 'Challenge token is required'),
+    ...secondFactorFields,
+  })
+  .refine(hasOneSecondFactor, secondFactorMessage);
+
+export const confirmTwoFactorSchema = z.object({
+  code: totpCodeSchema,
+});
+
+export const disableTwoFactorSchema = z
+  .object({
+    password: z.string().min(1, 'Password is required'),
+    ...secondFactorFields,
+  })
+  .refine(hasOneSecondFactor, secondFactorMessage);
+
+/**
+ * Extract client information recorded with login sessions
+ */
+function getRequestContext(req: AuthRequest): IRequestContext {
+  return {
+    ip: req.ip,
+    userAgent: req.get('user-agent'),
+  };
+}
+
+/**
+ * Send an AuthError response
+ * Rate-limited errors are sent as 429 with a Retry-After header
+ */
+function sendAuthError(res: Response, error: AuthError, status: number): void {
+  if (error.retryAfter !== undefined) {
+    res.set('Retry-After', String(error.retryAfter));
+    res.status(429).json({
+      success: false,
+      error: {
+        code: error.code,
+        message: error.message,
+        retryAfter: error.retryAfter,
+      },
+    });
+    return;
+  }
+
+  res.status(status).json({
+    success: false,
+    error: {
+      code: error.code,
+      message: error.message,
+    },
+  });
+}
+
 /**
  * Auth Controller
  * Handles authentication HTTP requests
@@ -39,7 +186,7 @@ export class AuthController {
     try {
       const { email, password } = req.body;
 
-      const result = await AuthService.register(email, password);
+      const result = await AuthService.register(email, password, getRequestContext(req));
 
       // Send verification email
       await EmailService.sendVerificationEmail(email, result.verificationCode);
@@ -75,7 +222,7 @@ export class AuthController {
     try {
       const { email, code } = req.body;
 
-      const result = await AuthService.verifyEmail(email, code);
+      const result = await AuthService.verifyEmail(email, code, getRequestContext(req));
 
       res.status(200).json({
         success: true,
@@ -86,7 +233,140 @@ export class AuthController {
       });
     } catch (error) {
       if (error instanceof AuthError) {
-        res.status(400).json({
+        sendAuthError(res, error, 400);
+        return;
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * Login user
+   * POST /api/auth/login
+   */
+  async login(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { email, password } = req.body;
+
+      const result = await AuthService.login(email, password, getRequestContext(req));
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      if (error instanceof AuthError) {
+        sendAuthError(res, error, 401);
+        return;
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * Send a passwordless login code
+   * POST /api/auth/login/email-code
+   */
+  async requestLoginCode(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { email } = req.body;
+
+      const code = await AuthService.requestLoginCode(email, getRequestContext(req));
+
+      if (code) {
+        await EmailService.sendLoginCode(email, code);
+      }
+
+      res.status(200).json({
+        success: true,
+        data: {
+          message: 'If a verified account exists for this email, a login code has been sent.',
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Log in with a passwordless login code
+   * POST /api/auth/login/email-code/verify
+   */
+  async verifyLoginCode(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { email, code } = req.body;
+
+      const result = await AuthService.verifyLoginCode(email, code, getRequestContext(req));
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      if (error instanceof AuthError) {
+        sendAuthError(res, error, 401);
+        return;
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * Complete a login with a second factor
+   * POST /api/auth/login/2fa
+   */
+  async loginTwoFactor(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { challengeToken, code, recoveryCode } = req.body;
+
+      const result = await AuthService.completeTwoFactorLogin(
+        challengeToken,
+        { code, recoveryCode },
+        getRequestContext(req)
+      );
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      if (error instanceof AuthError) {
+        sendAuthError(res, error, 401);
+        return;
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * Start two-factor enrollment
+   * POST /api/auth/2fa/setup
+   */
+  async setupTwoFactor(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        });
+        return;
+      }
+
+      const setup = await AuthService.setupTwoFactor(req.user.userId);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          ...setup,
+          message: 'Add this key to your authenticator app, then confirm with a code.',
+        },
+      });
+    } catch (error) {
+      if (error instanceof AuthError) {
+        res.status(error.code === 'USER_NOT_FOUND' ? 404 : 409).json({
           success: false,
           error: {
             code: error.code,
@@ -100,22 +380,84 @@ export class AuthController {
   }
 
   /**
-   * Login user
-   * POST /api/auth/login
+   * Confirm two-factor enrollment and receive recovery codes
+   * POST /api/auth/2fa/confirm
    */
-  async login(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+  async confirmTwoFactor(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
     try {
-      const { email, password } = req.body;
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        });
+        return;
+      }
+
+      const { code } = req.body;
 
-      const result = await AuthService.login(email, password);
+      const recoveryCodes = await AuthService.confirmTwoFactor(req.user.userId, code);
 
       res.status(200).json({
         success: true,
-        data: result,
+        data: {
+          recoveryCodes,
+          message: 'Two-factor authentication enabled. Store these recovery codes somewhere safe.',
+        },
       });
     } catch (error) {
       if (error instanceof AuthError) {
+        const status =
+          error.code === 'USER_NOT_FOUND' ? 404 : error.code === 'TWO_FACTOR_ALREADY_ENABLED' ? 409 : 400;
+        res.status(status).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+          },
+        });
+        return;
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * Disable two-factor authentication
+   * POST /api/auth/2fa/disable
+   */
+  async disableTwoFactor(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
         res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        });
+        return;
+      }
+
+      const { password, code, recoveryCode } = req.body;
+
+      const user = await AuthService.disableTwoFactor(req.user.userId, password, {
+        code,
+        recoveryCode,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: {
+          user,
+          message: 'Two-factor authentication disabled.',
+        },
+      });
+    } catch (error) {
+      if (error instanceof AuthError) {
+        res.status(error.code === 'USER_NOT_FOUND' ? 404 : 400).json({
           success: false,
           error: {
             code: error.code,
@@ -167,35 +509,498 @@ export class AuthController {
   }
 
   /**
-   * Logout user
-   * POST /api/auth/logout
-   * Note: JWT is stateless, so logout is handled client-side by removing token
+   * Get current user's profile
+   * GET /api/auth/me/profile
    */
-  async logout(_req: AuthRequest, res: Response): Promise<void> {
-    res.status(200).json({
-      success: true,
-      data: {
-        message: 'Logout successful. Please clear your token on the client side.',
-      },
-    });
+  async getProfile(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    await this.me(req, res, next);
   }
 
   /**
-   * Resend verification code
-   * POST /api/auth/resend-verification
+   * Update current user's profile
+   * PATCH /api/auth/me/profile
    */
-  async resendVerification(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+  async updateProfile(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
     try {
-      const { email } = req.body;
-
-      const code = await AuthService.resendVerificationCode(email);
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        });
+        return;
+      }
 
-      await EmailService.sendVerificationEmail(email, code);
+      const user = await AuthService.updateProfile(req.user.userId, req.body);
 
       res.status(200).json({
         success: true,
-        data: {
-          message: 'Verification code sent. Please check your email.',
+        data: { user },
+      });
+    } catch (error) {
+      if (error instanceof AuthError) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+          },
+        });
+        return;
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * Request an email change
+   * POST /api/auth/me/email
+   */
+  async requestEmailChange(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        });
+        return;
+      }
+
+      const { newEmail, password } = req.body;
+
+      const result = await AuthService.requestEmailChange(req.user.userId, newEmail, password);
+
+      await EmailService.sendEmailChangeCode(result.newEmail, result.code);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          message: 'A verification code has been sent to the new email address.',
+        },
+      });
+    } catch (error) {
+      if (error instanceof AuthError) {
+        res.status(error.code === 'EMAIL_ALREADY_EXISTS' ? 409 : 400).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+          },
+        });
+        return;
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * Confirm an email change
+   * POST /api/auth/me/email/confirm
+   */
+  async confirmEmailChange(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        });
+        return;
+      }
+
+      const { code } = req.body;
+
+      const result = await AuthService.confirmEmailChange(req.user.userId, code);
+
+      // Let the previous owner know, in case the change was not theirs
+      try {
+        await EmailService.sendEmailChangedNotice(result.previousEmail, result.user.email);
+      } catch (error) {
+        console.error('Failed to send email change notice:', error);
+      }
+
+      res.status(200).json({
+        success: true,
+        data: {
+          user: result.user,
+          message: 'Email address updated successfully.',
+        },
+      });
+    } catch (error) {
+      if (error instanceof AuthError) {
+        res.status(error.code === 'EMAIL_ALREADY_EXISTS' ? 409 : 400).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+          },
+        });
+        return;
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * Export all personal data of the current user
+   * GET /api/auth/me/export
+   */
+  async exportData(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        });
+        return;
+      }
+
+      const data = await AccountService.exportUserData(req.user.userId);
+      const date = data.exportedAt.toISOString().slice(0, 10);
+
+      res.set('Content-Disposition', `attachment; filename="491jobseeker-export-${date}.json"`);
+      res.status(200).json({
+        success: true,
+        data,
+      });
+    } catch (error) {
+      if (error instanceof AuthError) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+          },
+        });
+        return;
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * Delete the current user's account (after a grace period)
+   * DELETE /api/auth/me
+   */
+  async deleteAccount(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        });
+        return;
+      }
+
+      const { password } = req.body;
+
+      const result = await AccountService.requestDeletion(req.user.userId, password);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          ...result,
+          message: result.deleted
+            ? 'Your account and all associated data have been deleted.'
+            : 'Your account is scheduled for deletion. Log in again before then to cancel.',
+        },
+      });
+    } catch (error) {
+      if (error instanceof AuthError) {
+        res.status(error.code === 'USER_NOT_FOUND' ? 404 : 400).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+          },
+        });
+        return;
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * Refresh access token
+   * POST /api/auth/refresh
+   */
+  async refresh(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { refreshToken } = req.body;
+
+      const tokens = await AuthService.refresh(refreshToken, getRequestContext(req));
+
+      res.status(200).json({
+        success: true,
+        data: tokens,
+      });
+    } catch (error) {
+      if (error instanceof AuthError) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+          },
+        });
+        return;
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * Logout user
+   * POST /api/auth/logout
+   * Revokes the refresh token (and its family) so the session cannot be renewed
+   */
+  async logout(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const refreshToken = req.body?.refreshToken;
+
+      if (refreshToken) {
+        await AuthService.logout(refreshToken, getRequestContext(req));
+      }
+
+      res.status(200).json({
+        success: true,
+        data: {
+          message: 'Logout successful.',
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List the current user's authentication history
+   * GET /api/auth/me/activity
+   */
+  async activity(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        });
+        return;
+      }
+
+      const { page, limit } = req.query as { page?: number; limit?: number };
+
+      const result = await AuthEventService.listForUser(req.user.userId, { page, limit });
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List active sessions of the current user
+   * GET /api/auth/sessions
+   */
+  async listSessions(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        });
+        return;
+      }
+
+      const sessions = await AuthService.listSessions(req.user.userId);
+      const currentSessionId = req.user.sessionId;
+
+      res.status(200).json({
+        success: true,
+        data: {
+          sessions: sessions.map(session => ({
+            ...session,
+            current: session.id === currentSessionId,
+          })),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Sign out a single session
+   * DELETE /api/auth/sessions/:id
+   */
+  async revokeSession(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        });
+        return;
+      }
+
+      const { id } = req.params;
+      const sessionId = Array.isArray(id) ? id[0] : id;
+
+      await AuthService.revokeSession(req.user.userId, sessionId);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          message: 'Session signed out.',
+        },
+      });
+    } catch (error) {
+      if (error instanceof AuthError) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+          },
+        });
+        return;
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * Sign out everywhere except the current session
+   * DELETE /api/auth/sessions
+   */
+  async revokeOtherSessions(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        });
+        return;
+      }
+
+      const revoked = await AuthService.revokeOtherSessions(
+        req.user.userId,
+        req.user.sessionId
+      );
+
+      res.status(200).json({
+        success: true,
+        data: {
+          revoked,
+          message: 'Signed out of all other sessions.',
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Resend verification code
+   * POST /api/auth/resend-verification
+   */
+  async resendVerification(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { email } = req.body;
+
+      const code = await AuthService.resendVerificationCode(email, getRequestContext(req));
+
+      await EmailService.sendVerificationEmail(email, code);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          message: 'Verification code sent. Please check your email.',
+        },
+      });
+    } catch (error) {
+      if (error instanceof AuthError) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+          },
+        });
+        return;
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * Request password reset email
+   * POST /api/auth/forgot-password
+   * Always responds with success so account existence is not revealed
+   */
+  async forgotPassword(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { email } = req.body;
+
+      const token = await AuthService.requestPasswordReset(email, getRequestContext(req));
+
+      if (token) {
+        await EmailService.sendPasswordResetEmail(email, token);
+      }
+
+      res.status(200).json({
+        success: true,
+        data: {
+          message: 'If an account exists for this email, a password reset link has been sent.',
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Reset password with token
+   * POST /api/auth/reset-password
+   */
+  async resetPassword(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { token, password } = req.body;
+
+      const user = await AuthService.resetPassword(token, password, getRequestContext(req));
+
+      res.status(200).json({
+        success: true,
+        data: {
+          user,
+          message: 'Password reset successful. Please log in with your new password.',
         },
       });
     } catch (error) {
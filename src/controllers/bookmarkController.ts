@@ -0,0 +1,139 @@
+import { Response, NextFunction } from 'express';
+import { z } from 'zod';
+import BookmarkService from '../services/BookmarkService';
+import { AuthRequest } from '../middleware/authMiddleware';
+
+/**
+ * Request validation schemas
+ */
+export const listBookmarksQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).optional(),
+  limit: z.coerce.number().int().min(1).optional(),
+});
+
+/**
+ * Get a single route parameter
+ */
+function getRouteParam(value: string | string[]): string {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Bookmark Controller
+ * Handles the current user's bookmarked jobs
+ */
+export class BookmarkController {
+  /**
+   * Bookmark a job
+   * POST /api/jobs/:id/bookmark
+   */
+  async addBookmark(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        this.sendUnauthorized(res);
+        return;
+      }
+
+      const bookmark = await BookmarkService.addBookmark(
+        req.user.userId,
+        getRouteParam(req.params.id)
+      );
+
+      if (!bookmark) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Job not found',
+          },
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: { bookmark },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Remove a bookmark
+   * DELETE /api/jobs/:id/bookmark
+   */
+  async removeBookmark(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        this.sendUnauthorized(res);
+        return;
+      }
+
+      const removed = await BookmarkService.removeBookmark(
+        req.user.userId,
+        getRouteParam(req.params.id)
+      );
+
+      if (!removed) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Bookmark not found',
+          },
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: {
+          message: 'Bookmark removed.',
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List bookmarked jobs
+   * GET /api/me/bookmarks
+   */
+  async listBookmarks(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        this.sendUnauthorized(res);
+        return;
+      }
+
+      const { page, limit } = req.query as { page?: number; limit?: number };
+
+      const result = await BookmarkService.listBookmarks(req.user.userId, { page, limit });
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Send the response for a missing user
+   */
+  private sendUnauthorized(res: Response): void {
+    res.status(401).json({
+      success: false,
+      error: {
+        code: 'UNAUTHORIZED',
+        message: 'Authentication required',
+      },
+    });
+  }
+}
+
+// Export singleton instance
+export default new BookmarkController();
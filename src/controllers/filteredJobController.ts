@@ -1,29 +1,196 @@
 import { Request, Response } from 'express';
-import filteredJobService, { FilteredJobQuery } from '../models/FilteredJob';
+import { z } from 'zod';
+import filteredJobService, {
+  IFilteredJob,
+  JOB_FACETS,
+  JOB_PLATFORMS,
+  JOB_SORTS,
+} from '../models/FilteredJob';
+import BookmarkService from '../services/BookmarkService';
+import JobBlockService from '../services/JobBlockService';
+import { AuthRequest } from '../middleware/authMiddleware';
+import { InvalidCursorError } from '../utils/cursor';
+import { JobQueryFields, JobQuerySyntaxError, parseJobQuery } from '../utils/jobQueryLanguage';
+
+/**
+ * Comma-separated list of values ("remote,hybrid")
+ */
+export function commaList<T extends z.ZodType<unknown, string>>(item: T) {
+  return z
+    .string()
+    .transform(value =>
+      value
+        .split(',')
+        .map(part => part.trim())
+        .filter(Boolean)
+    )
+    .pipe(z.array(item).min(1));
+}
+
+export const dateString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD');
+
+/**
+ * Query language string, parsed into job query fields
+ * Syntax errors become validation issues carrying the clause position.
+ */
+const jobQueryString = z.string().transform((value, ctx) => {
+  try {
+    return parseJobQuery(value);
+  } catch (error) {
+    if (!(error instanceof JobQuerySyntaxError)) throw error;
+    ctx.addIssue({ code: 'custom', message: error.message, params: { position: error.position } });
+    return z.NEVER;
+  }
+});
+
+/**
+ * Parameters a query language field conflicts with
+ */
+const QUERY_FIELD_PARAMS: Partial<Record<keyof JobQueryFields, string>> = {
+  location: 'location',
+  platform: 'platform',
+  state: 'state',
+  employment_type: 'employmentType',
+  work_arrangement: 'workArrangement',
+  min_score: 'minScore',
+  max_score: 'maxScore',
+  date: 'date',
+  date_from: 'dateFrom',
+  date_to: 'dateTo',
+};
+
+// Validation schemas
+export const listJobsQuerySchema = z
+  .object({
+    page: z.coerce.number().int().min(1).optional(),
+    limit: z.coerce.number().int().min(1).optional(),
+    cursor: z.string().optional(),
+    includeTotal: z
+      .enum(['true', 'false'])
+      .transform(value => value === 'true')
+      .optional(),
+    facets: commaList(z.enum(JOB_FACETS)).optional(),
+    includeHidden: z
+      .enum(['true', 'false'])
+      .transform(value => value === 'true')
+      .optional(),
+    groupDuplicates: z
+      .enum(['true', 'false'])
+      .transform(value => value === 'true')
+      .optional(),
+    query: jobQueryString.optional(),
+    q: z.string().optional(),
+    location: z.string().optional(),
+    employmentType: commaList(z.string()).optional(),
+    workArrangement: commaList(z.string()).optional(),
+    platform: commaList(z.enum(JOB_PLATFORMS)).optional(),
+    state: commaList(z.string()).optional(),
+    minScore: z.coerce.number().optional(),
+    maxScore: z.coerce.number().optional(),
+    salaryMin: z.coerce.number().min(0).optional(),
+    salaryMax: z.coerce.number().min(0).optional(),
+    date: dateString.optional(),
+    dateFrom: dateString.optional(),
+    dateTo: dateString.optional(),
+    sortBy: z.enum(JOB_SORTS).optional(),
+    sortOrder: z.enum(['asc', 'desc']).optional(),
+  })
+  .refine(
+    query =>
+      query.minScore === undefined ||
+      query.maxScore === undefined ||
+      query.minScore <= query.maxScore,
+    { message: '"minScore" must not be greater than "maxScore"' }
+  )
+  .refine(
+    query =>
+      query.salaryMin === undefined ||
+      query.salaryMax === undefined ||
+      query.salaryMin <= query.salaryMax,
+    { message: '"salaryMin" must not be greater than "salaryMax"' }
+  )
+  .refine(query => !query.dateFrom || !query.dateTo || query.dateFrom <= query.dateTo, {
+    message: '"dateFrom" must not be after "dateTo"',
+  })
+  .superRefine((query, ctx) => {
+    for (const [field, param] of Object.entries(QUERY_FIELD_PARAMS)) {
+      const inQuery = query.query?.[field as keyof JobQueryFields] !== undefined;
+      if (inQuery && query[param as keyof typeof query] !== undefined) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['query'],
+          message: `"${param}" is set both in the query and as a parameter`,
+        });
+      }
+    }
+  });
+
+export type ListJobsQuery = z.infer<typeof listJobsQuerySchema>;
+
+/**
+ * Flag which jobs the signed-in caller has bookmarked
+ */
+async function markBookmarked(req: AuthRequest, jobs: IFilteredJob[]): Promise<void> {
+  if (!req.user) {
+    return;
+  }
+
+  const bookmarked = await BookmarkService.getBookmarkedJobIds(
+    req.user.userId,
+    jobs.map(job => job._id.toString())
+  );
+  for (const job of jobs) {
+    job.bookmarked = bookmarked.has(job._id.toString());
+  }
+}
 
 class FilteredJobController {
   /**
    * GET /api/jobs - List filtered jobs with pagination, search, and filter
    */
-  async listJobs(req: Request, res: Response): Promise<void> {
+  async listJobs(req: AuthRequest, res: Response): Promise<void> {
     try {
-      const query: FilteredJobQuery = {
-        page: req.query.page ? parseInt(req.query.page as string, 10) : undefined,
-        limit: req.query.limit ? parseInt(req.query.limit as string, 10) : undefined,
-        q: req.query.q as string | undefined,
-        location: req.query.location as string | undefined,
-        employment_type: req.query.employmentType as string | undefined,
-        work_arrangement: req.query.workArrangement as string | undefined,
-        platform: req.query.platform as string | undefined,
-        min_score: req.query.minScore ? parseFloat(req.query.minScore as string) : undefined,
-        date: req.query.date as string | undefined,
-        sortBy: req.query.sortBy as string | undefined,
-        sortOrder: req.query.sortOrder as 'asc' | 'desc' | undefined,
-      };
-
-      const result = await filteredJobService.getJobs(query);
+      const query = req.query as unknown as ListJobsQuery;
+      // Keywords from the query language add to q; other fields fill in (conflicts were rejected)
+      const { q: queryKeywords, ...queryFields } = query.query ?? {};
+      // Signed-in callers don't see what they have hidden unless they ask to
+      const exclude =
+        req.user && !query.includeHidden
+          ? await JobBlockService.getExclusions(req.user.userId)
+          : undefined;
+
+      const result = await filteredJobService.getJobs({
+        page: query.page,
+        limit: query.limit,
+        cursor: query.cursor,
+        includeTotal: query.includeTotal,
+        q: [query.q, queryKeywords].filter(Boolean).join(' ') || undefined,
+        location: query.location,
+        employment_type: query.employmentType,
+        work_arrangement: query.workArrangement,
+        platform: query.platform,
+        state: query.state,
+        min_score: query.minScore,
+        max_score: query.maxScore,
+        date: query.date,
+        date_from: query.dateFrom,
+        date_to: query.dateTo,
+        salary_min: query.salaryMin,
+        salary_max: query.salaryMax,
+        sortBy: query.sortBy,
+        sortOrder: query.sortOrder,
+        facets: query.facets,
+        exclude,
+        groupDuplicates: query.groupDuplicates,
+        ...queryFields,
+      });
+      await markBookmarked(req, result.data);
       res.json(result);
     } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
       console.error('Error listing jobs:', error);
       res.status(500).json({ error: 'Internal server error' });
     }
@@ -32,7 +199,7 @@ class FilteredJobController {
   /**
    * GET /api/jobs/:id - Get a single job by ID
    */
-  async getJob(req: Request, res: Response): Promise<void> {
+  async getJob(req: AuthRequest, res: Response): Promise<void> {
     try {
       const { id } = req.params;
       const jobId = Array.isArray(id) ? id[0] : id;
@@ -43,6 +210,7 @@ class FilteredJobController {
         return;
       }
 
+      await markBookmarked(req, [job]);
       res.json(job);
     } catch (error) {
       console.error('Error getting job:', error);
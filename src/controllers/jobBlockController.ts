@@ -0,0 +1,223 @@
+import { Response, NextFunction } from 'express';
+import { z } from 'zod';
+import JobBlockService from '../services/JobBlockService';
+import { JOB_BLOCK_TYPES } from '../models/JobBlock';
+import { AuthRequest } from '../middleware/authMiddleware';
+import { ServiceError } from '../utils/errors';
+
+/**
+ * Request validation schemas
+ */
+export const addJobBlockSchema = z.object({
+  type: z.enum(['company', 'keyword']),
+  value: z.string().trim().min(1, 'Value is required').max(200),
+});
+
+export const listJobBlocksQuerySchema = z.object({
+  type: z.enum(JOB_BLOCK_TYPES).optional(),
+});
+
+/**
+ * Get a single route parameter
+ */
+function getRouteParam(value: string | string[]): string {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Job Block Controller
+ * Handles the current user's dismissed jobs and blocked companies and keywords
+ */
+export class JobBlockController {
+  /**
+   * Dismiss a job
+   * POST /api/jobs/:id/dismiss
+   */
+  async dismissJob(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        this.sendUnauthorized(res);
+        return;
+      }
+
+      const block = await JobBlockService.dismissJob(
+        req.user.userId,
+        getRouteParam(req.params.id)
+      );
+
+      if (!block) {
+        this.sendNotFound(res, 'Job not found');
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: { block },
+      });
+    } catch (error) {
+      if (error instanceof ServiceError) {
+        this.sendError(res, error);
+        return;
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * Show a dismissed job again
+   * DELETE /api/jobs/:id/dismiss
+   */
+  async restoreJob(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        this.sendUnauthorized(res);
+        return;
+      }
+
+      const restored = await JobBlockService.restoreJob(
+        req.user.userId,
+        getRouteParam(req.params.id)
+      );
+
+      if (!restored) {
+        this.sendNotFound(res, 'Job is not dismissed');
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: {
+          message: 'Job restored.',
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List the block list
+   * GET /api/me/blocklist
+   */
+  async listBlocks(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        this.sendUnauthorized(res);
+        return;
+      }
+
+      const { type } = req.query as z.infer<typeof listJobBlocksQuerySchema>;
+
+      const blocks = await JobBlockService.listBlocks(req.user.userId, type);
+
+      res.status(200).json({
+        success: true,
+        data: { blocks },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Block a company or keyword
+   * POST /api/me/blocklist
+   */
+  async addBlock(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        this.sendUnauthorized(res);
+        return;
+      }
+
+      const { type, value } = req.body;
+
+      const block = await JobBlockService.addBlock(req.user.userId, type, value);
+
+      res.status(200).json({
+        success: true,
+        data: { block },
+      });
+    } catch (error) {
+      if (error instanceof ServiceError) {
+        this.sendError(res, error);
+        return;
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * Remove a block list entry
+   * DELETE /api/me/blocklist/:id
+   */
+  async removeBlock(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        this.sendUnauthorized(res);
+        return;
+      }
+
+      const removed = await JobBlockService.removeBlock(
+        req.user.userId,
+        getRouteParam(req.params.id)
+      );
+
+      if (!removed) {
+        this.sendNotFound(res, 'Block list entry not found');
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: {
+          message: 'Block list entry removed.',
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Send the response for a service error
+   */
+  private sendError(res: Response, error: ServiceError): void {
+    res.status(error.status).json({
+      success: false,
+      error: {
+        code: error.code,
+        message: error.message,
+      },
+    });
+  }
+
+  /**
+   * Send the response for a missing user
+   */
+  private sendUnauthorized(res: Response): void {
+    res.status(401).json({
+      success: false,
+      error: {
+        code: 'UNAUTHORIZED',
+        message: 'Authentication required',
+      },
+    });
+  }
+
+  /**
+   * Send the response for a missing job or entry
+   */
+  private sendNotFound(res: Response, message: string): void {
+    res.status(404).json({
+      success: false,
+      error: {
+        code: 'NOT_FOUND',
+        message,
+      },
+    });
+  }
+}
+
+// Export singleton instance
+export default new JobBlockController();
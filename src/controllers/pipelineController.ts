@@ -1,6 +1,8 @@
 import { Request, Response } from 'express';
 import { spawn } from 'child_process';
 import path from 'path';
+import JobAlertService from '../services/JobAlertService';
+import filteredJobService from '../models/FilteredJob';
 
 interface PipelineStatus {
   isRunning: boolean;
@@ -84,6 +86,26 @@ class PipelineController {
 
       if (success) {
         console.log('[Pipeline] Completed successfully');
+
+        // Group listings of the same role from different platforms
+        filteredJobService
+          .updateDuplicateClusters()
+          .then(result =>
+            console.log(
+              `[Pipeline] Clustered ${result.clusteredJobs} duplicate listing(s) into ${result.clusters} group(s)`
+            )
+          )
+          .catch(error => console.error('[Pipeline] Duplicate clustering failed:', error));
+
+        // Parse salaries of new jobs before alerting, so salary filters see them,
+        // then alert saved searches that asked to hear about new jobs right away
+        filteredJobService
+          .backfillSalaries()
+          .then(count => console.log(`[Pipeline] Parsed salaries of ${count} job(s)`))
+          .catch(error => console.error('[Pipeline] Salary parsing failed:', error))
+          .then(() => JobAlertService.sendPipelineAlerts())
+          .then(count => console.log(`[Pipeline] Sent ${count} job alert email(s)`))
+          .catch(error => console.error('[Pipeline] Job alerts failed:', error));
       } else {
         console.error(`[Pipeline] Failed with code ${code}`);
         console.error(`[Pipeline] Error output: ${errorOutput}`);
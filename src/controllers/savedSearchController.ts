@@ -0,0 +1,347 @@
+import { Response, NextFunction } from 'express';
+import { z } from 'zod';
+import SavedSearchService, { SavedSearchRunOptions } from '../services/SavedSearchService';
+import JobAlertService from '../services/JobAlertService';
+import { JOB_FACETS, JOB_PLATFORMS, JOB_SORTS } from '../models/FilteredJob';
+import { ALERT_FREQUENCIES } from '../models/SavedSearch';
+import { AuthRequest } from '../middleware/authMiddleware';
+import { InvalidCursorError } from '../utils/cursor';
+import { ServiceError } from '../utils/errors';
+import { commaList, dateString } from './filteredJobController';
+
+/**
+ * Request validation schemas
+ */
+const filterText = z.string().trim().min(1).max(200);
+const filterValues = z.array(z.string().trim().min(1)).min(1);
+
+export const savedJobQuerySchema = z
+  .object({
+    q: z.string().trim().min(1).max(500).optional(),
+    location: filterText.optional(),
+    title: filterText.optional(),
+    company: filterText.optional(),
+    remote: z.boolean().optional(),
+    platform: z.array(z.enum(JOB_PLATFORMS)).min(1).optional(),
+    state: filterValues.optional(),
+    employment_type: filterValues.optional(),
+    work_arrangement: filterValues.optional(),
+    min_score: z.number().optional(),
+    min_score_exclusive: z.boolean().optional(),
+    max_score: z.number().optional(),
+    max_score_exclusive: z.boolean().optional(),
+    date: dateString.optional(),
+    date_from: dateString.optional(),
+    date_to: dateString.optional(),
+    salary_min: z.number().min(0).optional(),
+    salary_max: z.number().min(0).optional(),
+    sortBy: z.enum(JOB_SORTS).optional(),
+    sortOrder: z.enum(['asc', 'desc']).optional(),
+  })
+  .strict();
+
+export const createSavedSearchSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  query: savedJobQuerySchema,
+  alertFrequency: z.enum(ALERT_FREQUENCIES).optional(),
+});
+
+export const updateSavedSearchSchema = z
+  .object({
+    name: z.string().trim().min(1, 'Name is required').max(100).optional(),
+    query: savedJobQuerySchema.optional(),
+    alertFrequency: z.enum(ALERT_FREQUENCIES).optional(),
+  })
+  .refine(update => Object.values(update).some(value => value !== undefined), {
+    message: 'Nothing to update',
+  });
+
+export const unsubscribeAlertsSchema = z.object({
+  token: z.string().min(1, 'Token is required'),
+});
+
+export const runSavedSearchQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).optional(),
+  limit: z.coerce.number().int().min(1).optional(),
+  cursor: z.string().optional(),
+  includeTotal: z
+    .enum(['true', 'false'])
+    .transform(value => value === 'true')
+    .optional(),
+  facets: commaList(z.enum(JOB_FACETS)).optional(),
+});
+
+/**
+ * Get a single route parameter
+ */
+function getRouteParam(value: string | string[]): string {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Saved Search Controller
+ * Handles the current user's saved job searches
+ */
+export class SavedSearchController {
+  /**
+   * Save a search
+   * POST /api/saved-searches
+   */
+  async createSearch(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        this.sendUnauthorized(res);
+        return;
+      }
+
+      const { name, query, alertFrequency } = req.body;
+
+      const savedSearch = await SavedSearchService.createSearch(
+        req.user.userId,
+        name,
+        query,
+        alertFrequency
+      );
+
+      res.status(201).json({
+        success: true,
+        data: { savedSearch },
+      });
+    } catch (error) {
+      if (error instanceof ServiceError) {
+        res.status(error.status).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+          },
+        });
+        return;
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * List saved searches with new job counts
+   * GET /api/saved-searches
+   */
+  async listSearches(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        this.sendUnauthorized(res);
+        return;
+      }
+
+      const savedSearches = await SavedSearchService.listSearches(req.user.userId);
+
+      res.status(200).json({
+        success: true,
+        data: { savedSearches },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get a saved search
+   * GET /api/saved-searches/:id
+   */
+  async getSearch(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        this.sendUnauthorized(res);
+        return;
+      }
+
+      const savedSearch = await SavedSearchService.getSearch(
+        req.user.userId,
+        getRouteParam(req.params.id)
+      );
+
+      if (!savedSearch) {
+        this.sendNotFound(res);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: { savedSearch },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Rename a saved search, replace its filters or change its alerts
+   * PATCH /api/saved-searches/:id
+   */
+  async updateSearch(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        this.sendUnauthorized(res);
+        return;
+      }
+
+      const savedSearch = await SavedSearchService.updateSearch(
+        req.user.userId,
+        getRouteParam(req.params.id),
+        req.body
+      );
+
+      if (!savedSearch) {
+        this.sendNotFound(res);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: { savedSearch },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Delete a saved search
+   * DELETE /api/saved-searches/:id
+   */
+  async deleteSearch(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        this.sendUnauthorized(res);
+        return;
+      }
+
+      const deleted = await SavedSearchService.deleteSearch(
+        req.user.userId,
+        getRouteParam(req.params.id)
+      );
+
+      if (!deleted) {
+        this.sendNotFound(res);
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: {
+          message: 'Saved search deleted.',
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Run a saved search
+   * GET /api/saved-searches/:id/jobs
+   */
+  async runSearch(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        this.sendUnauthorized(res);
+        return;
+      }
+
+      const result = await SavedSearchService.runSearch(
+        req.user.userId,
+        getRouteParam(req.params.id),
+        req.query as unknown as SavedSearchRunOptions
+      );
+
+      if (!result) {
+        this.sendNotFound(res);
+        return;
+      }
+
+      const { data: jobs, ...pageInfo } = result.jobs;
+
+      res.status(200).json({
+        success: true,
+        data: {
+          savedSearch: result.search,
+          jobs,
+          ...pageInfo,
+        },
+      });
+    } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'INVALID_CURSOR',
+            message: error.message,
+          },
+        });
+        return;
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * Turn off job alerts from an alert email link (no login required)
+   * POST /api/saved-searches/alerts/unsubscribe?token=...
+   */
+  async unsubscribeAlerts(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { token } = req.query as { token: string };
+
+      const unsubscribed = await JobAlertService.unsubscribe(token);
+
+      if (!unsubscribed) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'INVALID_TOKEN',
+            message: 'Invalid unsubscribe link',
+          },
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: {
+          message: 'Job alerts turned off.',
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Send the response for a missing user
+   */
+  private sendUnauthorized(res: Response): void {
+    res.status(401).json({
+      success: false,
+      error: {
+        code: 'UNAUTHORIZED',
+        message: 'Authentication required',
+      },
+    });
+  }
+
+  /**
+   * Send the response for a missing saved search
+   */
+  private sendNotFound(res: Response): void {
+    res.status(404).json({
+      success: false,
+      error: {
+        code: 'NOT_FOUND',
+        message: 'Saved search not found',
+      },
+    });
+  }
+}
+
+// Export singleton instance
+export default new SavedSearchController();
@@ -6,6 +6,15 @@ import filteredJobRoutes from './routes/filteredJobRoutes';
 import authRoutes from './routes/authRoutes';
 import resumeRoutes from './routes/resumeRoutes';
 import pipelineRoutes from './routes/pipelineRoutes';
+import adminRoutes from './routes/adminRoutes';
+import apiKeyRoutes from './routes/apiKeyRoutes';
+import savedSearchRoutes from './routes/savedSearchRoutes';
+import bookmarkRoutes from './routes/bookmarkRoutes';
+import jobBlockRoutes from './routes/jobBlockRoutes';
+import applicationRoutes from './routes/applicationRoutes';
+import filteredJobService from './models/FilteredJob';
+import AccountService from './services/AccountService';
+import JobAlertService from './services/JobAlertService';
 
 // Load environment variables
 import path from 'path';
@@ -26,9 +35,60 @@ app.get('/health', (_req, res) => {
 
 // API routes
 app.use('/api', filteredJobRoutes);
+app.use('/api', bookmarkRoutes);
+app.use('/api', jobBlockRoutes);
+app.use('/api/auth/api-keys', apiKeyRoutes);
 app.use('/api/auth', authRoutes);
 app.use('/api/resume', resumeRoutes);
 app.use('/api/pipeline', pipelineRoutes);
+app.use('/api/admin', adminRoutes);
+app.use('/api/saved-searches', savedSearchRoutes);
+app.use('/api/applications', applicationRoutes);
+
+// Interval for hard-deleting accounts whose deletion grace period has ended
+const ACCOUNT_PURGE_INTERVAL = 60 * 60 * 1000;
+
+// Interval for checking for due daily and weekly job alerts
+const JOB_ALERT_INTERVAL = 60 * 60 * 1000;
+
+// Start periodic maintenance tasks
+function startBackgroundTasks(): void {
+  // Keyword search needs the text index on the ETL-owned jobs collection
+  filteredJobService
+    .createTextIndex()
+    .then(created => {
+      if (!created) {
+        console.log('Keeping the existing text index on filtered jobs');
+      }
+    })
+    .catch(error => console.error('Failed to create the job text index:', error));
+
+  const purgeAccounts = (): void => {
+    AccountService.purgeDueDeletions()
+      .then(count => {
+        if (count > 0) {
+          console.log(`Deleted ${count} account(s) after grace period`);
+        }
+      })
+      .catch(error => console.error('Account purge failed:', error));
+  };
+
+  purgeAccounts();
+  setInterval(purgeAccounts, ACCOUNT_PURGE_INTERVAL).unref();
+
+  const sendJobAlerts = (): void => {
+    JobAlertService.sendDueAlerts()
+      .then(count => {
+        if (count > 0) {
+          console.log(`Sent ${count} job alert email(s)`);
+        }
+      })
+      .catch(error => console.error('Job alerts failed:', error));
+  };
+
+  sendJobAlerts();
+  setInterval(sendJobAlerts, JOB_ALERT_INTERVAL).unref();
+}
 
 // Start server
 async function startServer(): Promise<void> {
@@ -36,6 +96,8 @@ async function startServer(): Promise<void> {
     // Connect to MongoDB
     await connectDatabase();
 
+    startBackgroundTasks();
+
     // Start Express server
     app.listen(PORT, () => {
       console.log(`Server is running on http://localhost:${PORT}`);
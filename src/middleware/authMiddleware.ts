@@ -1,18 +1,168 @@
 import { Request, Response, NextFunction } from 'express';
 import { verifyToken, IJWTPayload } from '../utils/jwt';
+import User, { UserRole } from '../models/User';
+import Session from '../models/Session';
+import { ApiKeyScope } from '../models/ApiKey';
+import AuthEventService from '../services/AuthEventService';
+import ApiKeyService from '../services/ApiKeyService';
+
+/**
+ * Minimum interval between session last-seen updates
+ */
+const LAST_SEEN_UPDATE_INTERVAL = 60 * 1000;
+
+/**
+ * Authenticated user attached to the request
+ * Requests made with an API key carry its id and scopes
+ */
+export interface IAuthUser extends IJWTPayload {
+  apiKeyId?: string;
+  scopes?: ApiKeyScope[];
+}
 
 /**
  * Extended Request interface with user property
  */
 export interface AuthRequest extends Request {
-  user?: IJWTPayload;
+  user?: IAuthUser;
+}
+
+/**
+ * Outcome of resolving a bearer token
+ * Rejections carry a reason code (and the user id once the signature checked out)
+ */
+interface ITokenResolution {
+  payload?: IJWTPayload;
+  reason?: string;
+  userId?: string;
+}
+
+/**
+ * Verify a token and check it has not been invalidated
+ * Tokens whose session was revoked, or issued before the user's last
+ * password change, are rejected
+ */
+async function resolveToken(token: string): Promise<ITokenResolution> {
+  let payload: IJWTPayload;
+  try {
+    payload = verifyToken(token);
+  } catch {
+    return { reason: 'INVALID_TOKEN' };
+  }
+
+  const user = await User.findById(payload.userId).select('passwordChangedAt role');
+  if (!user) {
+    return { reason: 'USER_NOT_FOUND' };
+  }
+
+  if (
+    user.passwordChangedAt &&
+    payload.iat !== undefined &&
+    payload.iat < Math.floor(user.passwordChangedAt.getTime() / 1000)
+  ) {
+    return { reason: 'PASSWORD_CHANGED', userId: payload.userId };
+  }
+
+  if (payload.sessionId) {
+    const session = await Session.findById(payload.sessionId);
+    if (!session || !session.isActive()) {
+      return { reason: 'SESSION_REVOKED', userId: payload.userId };
+    }
+
+    if (Date.now() - session.lastSeenAt.getTime() > LAST_SEEN_UPDATE_INTERVAL) {
+      await Session.updateOne({ _id: session._id }, { lastSeenAt: new Date() });
+    }
+  }
+
+  // Use the current role so promotions and demotions apply immediately
+  return { payload: { ...payload, role: user.role } };
+}
+
+/**
+ * Authenticate a request made with an X-API-Key header
+ * Keys are only accepted on routes that declare a scope, and only if granted it
+ */
+async function authenticateApiKey(
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction,
+  key: string,
+  scope?: ApiKeyScope
+): Promise<void> {
+  if (!scope) {
+    res.status(403).json({
+      success: false,
+      error: {
+        code: 'API_KEY_NOT_ALLOWED',
+        message: 'This endpoint does not accept API keys',
+      },
+    });
+    return;
+  }
+
+  try {
+    const principal = await ApiKeyService.resolveKey(key);
+    if (!principal) {
+      await AuthEventService.record({
+        type: 'token_rejected',
+        outcome: 'failure',
+        reason: 'INVALID_API_KEY',
+        ip: req.ip,
+        userAgent: req.get('user-agent'),
+      });
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Invalid or revoked API key',
+        },
+      });
+      return;
+    }
+
+    const { user, apiKey } = principal;
+    if (!apiKey.scopes.includes(scope)) {
+      res.status(403).json({
+        success: false,
+        error: {
+          code: 'INSUFFICIENT_SCOPE',
+          message: `This API key is missing the ${scope} scope`,
+        },
+      });
+      return;
+    }
+
+    req.user = {
+      userId: user._id.toString(),
+      email: user.email,
+      role: user.role,
+      apiKeyId: apiKey._id.toString(),
+      scopes: apiKey.scopes,
+    };
+  } catch (error) {
+    next(error);
+    return;
+  }
+
+  next();
 }
 
 /**
  * Authentication middleware
  * Verifies JWT token from Authorization header and attaches user to request
  */
-export function authenticate(req: AuthRequest, res: Response, next: NextFunction): void {
+export async function authenticate(
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  // API keys are rejected here; routes opt in with authenticateWithScope
+  const apiKey = req.get('x-api-key');
+  if (apiKey) {
+    await authenticateApiKey(req, res, next, apiKey);
+    return;
+  }
+
   // Get token from Authorization header
   const authHeader = req.headers.authorization;
 
@@ -30,25 +180,49 @@ export function authenticate(req: AuthRequest, res: Response, next: NextFunction
   const token = authHeader.substring(7); // Remove 'Bearer ' prefix
 
   try {
-    const payload = verifyToken(token);
+    const { payload, reason, userId } = await resolveToken(token);
+    if (!payload) {
+      await AuthEventService.record({
+        type: 'token_rejected',
+        outcome: 'failure',
+        reason,
+        userId,
+        ip: req.ip,
+        userAgent: req.get('user-agent'),
+      });
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Invalid or expired token',
+        },
+      });
+      return;
+    }
     req.user = payload;
-    next();
   } catch (error) {
-    res.status(401).json({
-      success: false,
-      error: {
-        code: 'UNAUTHORIZED',
-        message: 'Invalid or expired token',
-      },
-    });
+    next(error);
+    return;
   }
+
+  next();
 }
 
 /**
  * Optional authentication middleware
  * Attaches user to request if token is valid, but doesn't require auth
  */
-export function optionalAuthenticate(req: AuthRequest, _res: Response, next: NextFunction): void {
+export async function optionalAuthenticate(
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  const apiKey = req.get('x-api-key');
+  if (apiKey) {
+    await authenticateApiKey(req, res, next, apiKey);
+    return;
+  }
+
   const authHeader = req.headers.authorization;
 
   if (!authHeader || !authHeader.startsWith('Bearer ')) {
@@ -59,11 +233,75 @@ export function optionalAuthenticate(req: AuthRequest, _res: Response, next: Nex
   const token = authHeader.substring(7);
 
   try {
-    const payload = verifyToken(token);
-    req.user = payload;
+    const { payload } = await resolveToken(token);
+    if (payload) {
+      req.user = payload;
+    }
   } catch (error) {
     // Ignore invalid token for optional auth
   }
 
   next();
 }
+
+/**
+ * Authentication middleware factory for routes that also accept API keys
+ * Session tokens are unrestricted; API keys must carry the given scope
+ */
+export function authenticateWithScope(scope: ApiKeyScope) {
+  return async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+    const apiKey = req.get('x-api-key');
+    if (apiKey) {
+      await authenticateApiKey(req, res, next, apiKey, scope);
+      return;
+    }
+    await authenticate(req, res, next);
+  };
+}
+
+/**
+ * Optional authentication middleware factory for public routes that also accept API keys
+ * A presented API key must be valid and carry the given scope
+ */
+export function optionalAuthenticateWithScope(scope: ApiKeyScope) {
+  return async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+    const apiKey = req.get('x-api-key');
+    if (apiKey) {
+      await authenticateApiKey(req, res, next, apiKey, scope);
+      return;
+    }
+    await optionalAuthenticate(req, res, next);
+  };
+}
+
+/**
+ * Role-based authorization middleware factory
+ * Must run after authenticate; rejects users whose role is not allowed
+ */
+export function requireRole(...roles: UserRole[]) {
+  return (req: AuthRequest, res: Response, next: NextFunction): void => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required',
+        },
+      });
+      return;
+    }
+
+    if (!roles.includes(req.user.role ?? 'user')) {
+      res.status(403).json({
+        success: false,
+        error: {
+          code: 'FORBIDDEN',
+          message: 'Insufficient permissions',
+        },
+      });
+      return;
+    }
+
+    next();
+  };
+}
@@ -40,7 +40,13 @@ export function validateQuery<T>(schema: ZodSchema<T>) {
   return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
       const validatedQuery = await schema.parseAsync(req.query);
-      req.query = validatedQuery as any;
+      // req.query is a getter in Express 5, so it has to be redefined
+      Object.defineProperty(req, 'query', {
+        value: validatedQuery,
+        writable: true,
+        configurable: true,
+        enumerable: true,
+      });
       next();
     } catch (error) {
       if (error instanceof ZodError) {
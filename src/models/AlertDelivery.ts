@@ -0,0 +1,65 @@
+import mongoose, { Schema, Model } from 'mongoose';
+
+/**
+ * Job alert delivery document interface
+ * One record per job emailed for a saved search, so no job is alerted twice
+ */
+export interface IAlertDelivery {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  savedSearchId: mongoose.Types.ObjectId;
+  jobId: string; // filtered_jobs _id
+  sentAt: Date;
+  expiresAt: Date;
+}
+
+/**
+ * Alert Delivery Schema
+ */
+const AlertDeliverySchema = new Schema<IAlertDelivery>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    savedSearchId: {
+      type: Schema.Types.ObjectId,
+      ref: 'SavedSearch',
+      required: true,
+    },
+    jobId: {
+      type: String,
+      required: true,
+    },
+    sentAt: {
+      type: Date,
+      default: Date.now,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    collection: 'alert_deliveries',
+  }
+);
+
+// Each job is delivered at most once per saved search
+AlertDeliverySchema.index({ savedSearchId: 1, jobId: 1 }, { unique: true });
+
+// Index for account deletion and export
+AlertDeliverySchema.index({ userId: 1 });
+
+// Old delivery records are removed automatically by MongoDB
+AlertDeliverySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+/**
+ * Alert Delivery Model
+ */
+const AlertDelivery: Model<IAlertDelivery> =
+  mongoose.models.AlertDelivery ||
+  mongoose.model<IAlertDelivery>('AlertDelivery', AlertDeliverySchema);
+
+export default AlertDelivery;
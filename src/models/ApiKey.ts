@@ -0,0 +1,104 @@
+import mongoose, { Schema, Model } from 'mongoose';
+
+/**
+ * Scopes an API key can be granted
+ * - jobs:read: list and read jobs
+ * - resume:read: read the owner's resumes and analyses
+ */
+export const API_KEY_SCOPES = ['jobs:read', 'resume:read'] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+/**
+ * Personal API key document interface
+ * Only the SHA-256 hash of the key is stored; the prefix identifies it in listings
+ */
+export interface IApiKey {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  name: string;
+  prefix: string;
+  keyHash: string;
+  scopes: ApiKeyScope[];
+  lastUsedAt?: Date;
+  revokedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+  toResponse(): IApiKeyResponse;
+}
+
+/**
+ * API key response interface (public API)
+ */
+export interface IApiKeyResponse {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: ApiKeyScope[];
+  lastUsedAt?: Date;
+  createdAt: Date;
+}
+
+/**
+ * API Key Schema
+ */
+const ApiKeySchema = new Schema<IApiKey>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    prefix: {
+      type: String,
+      required: true,
+    },
+    keyHash: {
+      type: String,
+      required: true,
+      unique: true,
+      select: false,
+    },
+    scopes: {
+      type: [String],
+      enum: API_KEY_SCOPES,
+      required: true,
+    },
+    lastUsedAt: Date,
+    revokedAt: Date,
+  },
+  {
+    timestamps: true,
+    collection: 'api_keys',
+  }
+);
+
+// Index for listing a user's keys
+ApiKeySchema.index({ userId: 1, revokedAt: 1 });
+
+/**
+ * Convert API key to response format
+ */
+ApiKeySchema.methods.toResponse = function (this: IApiKey): IApiKeyResponse {
+  return {
+    id: this._id.toString(),
+    name: this.name,
+    prefix: this.prefix,
+    scopes: this.scopes,
+    lastUsedAt: this.lastUsedAt,
+    createdAt: this.createdAt,
+  };
+};
+
+/**
+ * API Key Model
+ */
+const ApiKey: Model<IApiKey> =
+  mongoose.models.ApiKey || mongoose.model<IApiKey>('ApiKey', ApiKeySchema);
+
+export default ApiKey;
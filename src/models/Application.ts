@@ -0,0 +1,185 @@
+import mongoose, { Schema, Model } from 'mongoose';
+import { IBookmarkedJob } from './Bookmark';
+
+/**
+ * Stages of a job application, in pipeline order
+ */
+export const APPLICATION_STATUSES = [
+  'saved',
+  'applied',
+  'screening',
+  'interview',
+  'offer',
+  'rejected',
+  'withdrawn',
+] as const;
+
+export type ApplicationStatus = (typeof APPLICATION_STATUSES)[number];
+
+/**
+ * Job an application is for
+ * Listed jobs are snapshotted like bookmarks; external jobs only have what the user entered
+ */
+export type IApplicationJob = Pick<IBookmarkedJob, 'job_title' | 'company_name_normalized'> &
+  Partial<IBookmarkedJob>;
+
+/**
+ * Status change entry
+ */
+export interface IApplicationStatusChange {
+  status: ApplicationStatus;
+  changedAt: Date;
+}
+
+/**
+ * Contact at the employer or agency
+ */
+export interface IApplicationContact {
+  name: string;
+  role?: string;
+  email?: string;
+  phone?: string;
+  notes?: string;
+}
+
+/**
+ * Application document interface
+ * jobId is set for jobs from the listings and absent for manually entered jobs
+ */
+export interface IApplication {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  jobId?: string; // filtered_jobs _id
+  job: IApplicationJob;
+  status: ApplicationStatus;
+  statusHistory: IApplicationStatusChange[];
+  notes?: string;
+  contacts: IApplicationContact[];
+  nextAction?: string;
+  nextActionDate?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+  toResponse(): IApplicationResponse;
+}
+
+/**
+ * Application response interface (public API)
+ */
+export interface IApplicationResponse {
+  id: string;
+  jobId?: string;
+  job: IApplicationJob;
+  status: ApplicationStatus;
+  statusHistory: IApplicationStatusChange[];
+  notes?: string;
+  contacts: IApplicationContact[];
+  nextAction?: string;
+  nextActionDate?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Application Schema
+ */
+const ApplicationSchema = new Schema<IApplication>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    jobId: {
+      type: String,
+    },
+    job: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: APPLICATION_STATUSES,
+      default: 'saved',
+    },
+    statusHistory: [
+      {
+        _id: false,
+        status: {
+          type: String,
+          enum: APPLICATION_STATUSES,
+          required: true,
+        },
+        changedAt: {
+          type: Date,
+          required: true,
+        },
+      },
+    ],
+    notes: {
+      type: String,
+    },
+    contacts: [
+      {
+        _id: false,
+        name: { type: String, required: true, trim: true },
+        role: { type: String, trim: true },
+        email: { type: String, trim: true },
+        phone: { type: String, trim: true },
+        notes: { type: String },
+      },
+    ],
+    nextAction: {
+      type: String,
+      trim: true,
+    },
+    nextActionDate: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'applications',
+  }
+);
+
+// A listed job is tracked at most once per user
+ApplicationSchema.index(
+  { userId: 1, jobId: 1 },
+  { unique: true, partialFilterExpression: { jobId: { $type: 'string' } } }
+);
+
+// Index for listing and counting a user's applications by status
+ApplicationSchema.index({ userId: 1, status: 1, updatedAt: -1 });
+
+/**
+ * Convert application to response format
+ */
+ApplicationSchema.methods.toResponse = function (this: IApplication): IApplicationResponse {
+  return {
+    id: this._id.toString(),
+    jobId: this.jobId,
+    job: this.job,
+    status: this.status,
+    statusHistory: this.statusHistory.map(({ status, changedAt }) => ({ status, changedAt })),
+    notes: this.notes,
+    contacts: this.contacts.map(({ name, role, email, phone, notes }) => ({
+      name,
+      role,
+      email,
+      phone,
+      notes,
+    })),
+    nextAction: this.nextAction,
+    nextActionDate: this.nextActionDate,
+    createdAt: this.createdAt,
+    updatedAt: this.updatedAt,
+  };
+};
+
+/**
+ * Application Model
+ */
+const Application: Model<IApplication> =
+  mongoose.models.Application || mongoose.model<IApplication>('Application', ApplicationSchema);
+
+export default Application;
@@ -0,0 +1,55 @@
+import mongoose, { Schema, Model } from 'mongoose';
+
+/**
+ * Failed authentication attempt counter
+ * Keyed by action and subject, e.g. "login:account:user@example.com" or
+ * "verify:ip:203.0.113.7". Stored in MongoDB so limits hold across API instances.
+ */
+export interface IAuthAttempt {
+  _id: mongoose.Types.ObjectId;
+  key: string;
+  failures: number;
+  lastFailureAt: Date;
+  lockedUntil?: Date;
+  expiresAt: Date;
+}
+
+/**
+ * Auth Attempt Schema
+ */
+const AuthAttemptSchema = new Schema<IAuthAttempt>(
+  {
+    key: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    failures: {
+      type: Number,
+      default: 0,
+    },
+    lastFailureAt: {
+      type: Date,
+      required: true,
+    },
+    lockedUntil: Date,
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    collection: 'auth_attempts',
+  }
+);
+
+// Counters are forgotten automatically once the window has passed
+AuthAttemptSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+/**
+ * Auth Attempt Model
+ */
+const AuthAttempt: Model<IAuthAttempt> =
+  mongoose.models.AuthAttempt || mongoose.model<IAuthAttempt>('AuthAttempt', AuthAttemptSchema);
+
+export default AuthAttempt;
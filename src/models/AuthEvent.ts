@@ -0,0 +1,139 @@
+import mongoose, { Schema, Model } from 'mongoose';
+
+/**
+ * Authentication event types
+ */
+export const AUTH_EVENT_TYPES = [
+  'register',
+  'verify_email',
+  'resend_verification',
+  'login',
+  'login_code_request',
+  'login_code',
+  'two_factor',
+  'refresh',
+  'logout',
+  'password_reset_request',
+  'password_reset',
+  'token_rejected',
+] as const;
+
+export type AuthEventType = (typeof AUTH_EVENT_TYPES)[number];
+
+export const AUTH_EVENT_OUTCOMES = ['success', 'failure'] as const;
+
+export type AuthEventOutcome = (typeof AUTH_EVENT_OUTCOMES)[number];
+
+/**
+ * Authentication audit log entry
+ * Entries are append-only: they are written once and only removed by the
+ * retention TTL or when the account is deleted
+ */
+export interface IAuthEvent {
+  _id: mongoose.Types.ObjectId;
+  type: AuthEventType;
+  outcome: AuthEventOutcome;
+  reason?: string; // Error code for failures, e.g. INVALID_CREDENTIALS
+  userId?: mongoose.Types.ObjectId;
+  email?: string;
+  ip?: string;
+  userAgent?: string;
+  expiresAt: Date;
+  createdAt: Date;
+  toResponse(): IAuthEventResponse;
+}
+
+/**
+ * Auth event response interface (public API)
+ */
+export interface IAuthEventResponse {
+  id: string;
+  type: AuthEventType;
+  outcome: AuthEventOutcome;
+  reason?: string;
+  userId?: string;
+  email?: string;
+  ip?: string;
+  userAgent?: string;
+  createdAt: Date;
+}
+
+/**
+ * Auth Event Schema
+ */
+const AuthEventSchema = new Schema<IAuthEvent>(
+  {
+    type: {
+      type: String,
+      enum: AUTH_EVENT_TYPES,
+      required: true,
+    },
+    outcome: {
+      type: String,
+      enum: AUTH_EVENT_OUTCOMES,
+      required: true,
+    },
+    reason: String,
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    email: {
+      type: String,
+      lowercase: true,
+      trim: true,
+    },
+    ip: String,
+    userAgent: String,
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    collection: 'auth_events',
+  }
+);
+
+// Index for a user's own activity history
+AuthEventSchema.index({ userId: 1, createdAt: -1 });
+
+// Index for admin queries by event type
+AuthEventSchema.index({ type: 1, createdAt: -1 });
+
+// Events are removed automatically once their retention period has passed
+AuthEventSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Reject in-place modification of logged events
+AuthEventSchema.pre(
+  ['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace'],
+  function () {
+    throw new Error('Auth events are append-only');
+  }
+);
+
+/**
+ * Convert auth event to response format
+ */
+AuthEventSchema.methods.toResponse = function (this: IAuthEvent): IAuthEventResponse {
+  return {
+    id: this._id.toString(),
+    type: this.type,
+    outcome: this.outcome,
+    reason: this.reason,
+    userId: this.userId?.toString(),
+    email: this.email,
+    ip: this.ip,
+    userAgent: this.userAgent,
+    createdAt: this.createdAt,
+  };
+};
+
+/**
+ * Auth Event Model
+ */
+const AuthEvent: Model<IAuthEvent> =
+  mongoose.models.AuthEvent || mongoose.model<IAuthEvent>('AuthEvent', AuthEventSchema);
+
+export default AuthEvent;
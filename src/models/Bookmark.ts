@@ -0,0 +1,113 @@
+import mongoose, { Schema, Model } from 'mongoose';
+import { IFilteredJob } from './FilteredJob';
+
+/**
+ * Job fields copied into a bookmark when it is created
+ * Kept so the shortlist still shows the job after the ETL rewrites or prunes it
+ */
+export interface IBookmarkedJob {
+  job_title: string;
+  company_name_normalized: string;
+  job_location: string;
+  city?: string;
+  state?: string;
+  platform: string;
+  employment_type?: string;
+  work_arrangement?: string;
+  apply_link: string;
+  date: string;
+  match_score?: number;
+}
+
+/**
+ * Bookmark document interface
+ */
+export interface IBookmark {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  jobId: string; // filtered_jobs _id
+  job: IBookmarkedJob;
+  createdAt: Date;
+  updatedAt: Date;
+  toResponse(): IBookmarkResponse;
+}
+
+/**
+ * Bookmark response interface (public API)
+ */
+export interface IBookmarkResponse {
+  id: string;
+  jobId: string;
+  job: IBookmarkedJob;
+  createdAt: Date;
+}
+
+/**
+ * Copy the bookmarked fields of a job
+ */
+export function snapshotJob(job: IFilteredJob): IBookmarkedJob {
+  return {
+    job_title: job.job_title,
+    company_name_normalized: job.company_name_normalized,
+    job_location: job.job_location,
+    city: job.city,
+    state: job.state,
+    platform: job.platform,
+    employment_type: job.employment_type,
+    work_arrangement: job.work_arrangement,
+    apply_link: job.apply_link,
+    date: job.date,
+    match_score: job.analysis?.match_score,
+  };
+}
+
+/**
+ * Bookmark Schema
+ */
+const BookmarkSchema = new Schema<IBookmark>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    jobId: {
+      type: String,
+      required: true,
+    },
+    job: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'bookmarks',
+  }
+);
+
+// Each job is bookmarked at most once per user; also serves bookmarked lookups
+BookmarkSchema.index({ userId: 1, jobId: 1 }, { unique: true });
+
+// Index for listing a user's bookmarks, newest first
+BookmarkSchema.index({ userId: 1, createdAt: -1 });
+
+/**
+ * Convert bookmark to response format
+ */
+BookmarkSchema.methods.toResponse = function (this: IBookmark): IBookmarkResponse {
+  return {
+    id: this._id.toString(),
+    jobId: this.jobId,
+    job: this.job,
+    createdAt: this.createdAt,
+  };
+};
+
+/**
+ * Bookmark Model
+ */
+const Bookmark: Model<IBookmark> =
+  mongoose.models.Bookmark || mongoose.model<IBookmark>('Bookmark', BookmarkSchema);
+
+export default Bookmark;
@@ -1,12 +1,24 @@
 import mongoose from 'mongoose';
-import { MongoClient } from 'mongodb';
+import { Document, MongoClient, MongoServerError } from 'mongodb';
 import { MONGODB_URI } from '../config/database';
+import { buildCursorFilter, decodeCursor, encodeCursor, InvalidCursorError } from '../utils/cursor';
+import { escapeRegExp } from '../utils/regex';
+import {
+  buildExclusionRegExp,
+  buildSnippet,
+  hasPositiveTerms,
+  highlightField,
+  parseSearchQuery,
+  toTextSearch,
+} from '../utils/searchQuery';
+import { DedupCandidate, blockByCompany, clusterDuplicates } from '../utils/dedup';
+import { JobSalary, SALARY_PARSER_VERSION, parseSalary } from '../utils/salaryParser';
 
 // Filtered job document interface (matches job_scraper_filtered.filtered_jobs)
 export interface IFilteredJob {
   _id: mongoose.Types.ObjectId;
   date: string; // YYYY-MM-DD format
-  platform: 'linkedin' | 'indeed' | 'seek';
+  platform: (typeof JOB_PLATFORMS)[number];
   job_posting_id: string;
   company_name_normalized: string;
   city: string;
@@ -29,36 +41,141 @@ export interface IFilteredJob {
   };
   updated_at: Date;
   created_at?: Date;
+  // Parsed from the title or description on first use; null when no pay is advertised
+  salary?: JobSalary | null;
+  salary_version?: number; // Parser version that produced salary
+  // Shared by listings of the same role on several platforms (see updateDuplicateClusters)
+  dedup_cluster_id?: string;
+  // Set on representatives when grouping duplicates
+  alsoOn?: { platform: string; apply_link: string }[];
+  // Set on keyword search results
+  search_score?: number;
+  search_highlights?: {
+    job_title?: string;
+    job_description?: string;
+  };
+  // Set when the caller is signed in
+  bookmarked?: boolean;
+}
+
+// Platforms the ETL pipeline scrapes
+export const JOB_PLATFORMS = ['linkedin', 'indeed', 'seek'] as const;
+
+// Fields the job list can return facet counts for
+export const JOB_FACETS = ['platform', 'employment_type', 'work_arrangement', 'state', 'date'] as const;
+
+export type JobFacet = (typeof JOB_FACETS)[number];
+
+// Orders the job list supports: fields, 'relevance' (requires q) and 'salary'
+// (top of the annual range)
+export const JOB_SORTS = [
+  'updated_at',
+  'created_at',
+  'date',
+  'analysis.match_score',
+  'job_title',
+  'company_name_normalized',
+  'platform',
+  'relevance',
+  'salary',
+] as const;
+
+export type JobSort = (typeof JOB_SORTS)[number];
+
+// Facet counts, most common value first
+export type JobFacetCounts = Partial<Record<JobFacet, { value: string; count: number }[]>>;
+
+// Jobs, companies and keywords a user has hidden from their listings
+// Companies match company_name_normalized case-insensitively; keywords match
+// whole words or phrases in the title or description
+export interface JobExclusions {
+  jobIds: string[];
+  companies: string[];
+  keywords: string[];
 }
 
 // Job query interface for API
 export interface FilteredJobQuery {
   page?: number;
   limit?: number;
-  q?: string; // Keyword search
+  cursor?: string; // Opaque cursor from a previous page's nextCursor (replaces page)
+  includeTotal?: boolean; // Default: true in page mode, false in cursor mode
+  q?: string; // Keyword search: terms, "phrases" and -exclusions
   location?: string;
-  employment_type?: string;
-  work_arrangement?: string;
-  platform?: string;
+  title?: string; // Substring of the job title
+  company?: string; // Substring of the company name
+  remote?: boolean; // Remote jobs only (true) or no remote jobs (false)
+  // Multi-value filters match any of the given values
+  employment_type?: string[];
+  work_arrangement?: string[];
+  platform?: string[];
+  state?: string[];
   min_score?: number;
+  min_score_exclusive?: boolean; // Compare with > instead of >=
+  max_score?: number;
+  max_score_exclusive?: boolean; // Compare with < instead of <=
   date?: string; // YYYY-MM-DD format
-  sortBy?: string;
+  date_from?: string; // Inclusive, YYYY-MM-DD format
+  date_to?: string; // Inclusive, YYYY-MM-DD format
+  salary_min?: number; // Annual AUD excluding super; the top of the job's range (if any) must reach it
+  salary_max?: number; // Annual AUD excluding super; the bottom of the range (if any) must not exceed it
+  sortBy?: JobSort;
   sortOrder?: 'asc' | 'desc';
+  facets?: JobFacet[]; // Facet counts to include in the response
+  exclude?: JobExclusions;
+  groupDuplicates?: boolean; // One representative per duplicate cluster (page mode only)
+}
+
+// Outcome of a duplicate clustering run
+export interface DuplicateClusterResult {
+  clusters: number;
+  clusteredJobs: number;
+  updated: number;
 }
 
 // Paginated result interface
+// page is only set in page mode; total and totalPages only when counted
 export interface PaginatedFilteredJobs {
   data: IFilteredJob[];
-  total: number;
-  page: number;
+  total?: number;
+  page?: number;
   limit: number;
-  totalPages: number;
+  totalPages?: number;
+  nextCursor: string | null;
+  facets?: JobFacetCounts;
+}
+
+// Job filter split for faceting: facet-owned conditions are kept apart so
+// each facet can be counted without its own selection
+interface JobFilter {
+  base: { [key: string]: any };
+  facetFilters: Partial<Record<JobFacet, { [key: string]: any }>>;
 }
 
 // Direct MongoDB access for filtered jobs
 const DB_NAME = 'job_scraper_filtered';
 const COLLECTION_NAME = 'filtered_jobs';
 
+// Keyword search index (created on startup); a title match outranks a company
+// match, which outranks the description
+const TEXT_INDEX_NAME = 'job_text_search';
+const TEXT_INDEX_WEIGHTS = { job_title: 10, company_name_normalized: 5, job_description: 1 };
+
+// Index errors meaning an index with the same keys exists under other options or
+// another name; all text indexes share their keys, so this means one is present
+const INDEX_CONFLICT_CODES = [85, 86];
+
+// Jobs loaded or written per batch by duplicate clustering and salary backfills
+const MAINTENANCE_BATCH_SIZE = 1000;
+
+// Field sorted on for sortBy=salary
+const SALARY_SORT_FIELD = 'salary.annual_max';
+
+// Salaries are parsed lazily. Filtering or sorting by salary starts a background
+// parse of jobs added since the last backfill, at most this often; requests are
+// served from the salaries cached so far.
+const SALARY_BACKFILL_INTERVAL = 5 * 60 * 1000;
+
 let mongoClient: MongoClient | null = null;
 
 function getMongoClient(): MongoClient {
@@ -68,97 +185,631 @@ function getMongoClient(): MongoClient {
   return mongoClient;
 }
 
+/**
+ * Close the filtered jobs connection (for scripts)
+ */
+export async function disconnectFilteredJobs(): Promise<void> {
+  if (mongoClient) {
+    await mongoClient.close();
+    mongoClient = null;
+  }
+}
+
+let salaryBackfill: Promise<number> | null = null;
+let salariesCheckedAt = 0;
+
 /**
  * FilteredJobService using direct MongoDB access
  * This bypasses Mongoose since the data comes from Python ETL pipeline
  */
 class FilteredJobService {
   /**
-   * Get paginated filtered jobs with filtering and search
+   * Build the job filter from query parameters
    */
-  async getJobs(query: FilteredJobQuery): Promise<PaginatedFilteredJobs> {
-    const client = getMongoClient();
-    const db = client.db(DB_NAME);
-    const collection = db.collection(COLLECTION_NAME);
-
-    const page = Math.max(1, query.page || 1);
-    const limit = Math.min(100, Math.max(1, query.limit || 10));
-    const skip = (page - 1) * limit;
-
-    // Build filter
-    const filter: { [key: string]: any } = {};
+  private buildFilter(query: FilteredJobQuery): JobFilter {
+    // Conditions that need $or are combined with $and
+    const base: { [key: string]: any } = {};
+    const conditions: { [key: string]: any }[] = [];
+    const facetFilters: JobFilter['facetFilters'] = {};
 
     // Only show passed jobs by default
-    filter['analysis.passed'] = true;
+    base['analysis.passed'] = true;
+
+    // Date filter (exact day and/or range; dates are YYYY-MM-DD so they compare as strings)
+    if (query.date || query.date_from || query.date_to) {
+      facetFilters.date = {
+        date: {
+          ...(query.date && { $eq: query.date }),
+          ...(query.date_from && { $gte: query.date_from }),
+          ...(query.date_to && { $lte: query.date_to }),
+        },
+      };
+    }
 
-    // Date filter
-    if (query.date) {
-      filter.date = query.date;
+    // Multi-select filters
+    if (query.platform?.length) {
+      facetFilters.platform = { platform: { $in: query.platform } };
+    }
+    if (query.employment_type?.length) {
+      facetFilters.employment_type = { employment_type: { $in: query.employment_type } };
+    }
+    if (query.work_arrangement?.length) {
+      facetFilters.work_arrangement = { work_arrangement: { $in: query.work_arrangement } };
+    }
+    if (query.state?.length) {
+      facetFilters.state = { state: { $in: query.state } };
     }
 
-    // Platform filter
-    if (query.platform) {
-      filter.platform = query.platform;
+    // Score range filter
+    if (query.min_score !== undefined || query.max_score !== undefined) {
+      base['analysis.match_score'] = {
+        ...(query.min_score !== undefined && {
+          [query.min_score_exclusive ? '$gt' : '$gte']: query.min_score,
+        }),
+        ...(query.max_score !== undefined && {
+          [query.max_score_exclusive ? '$lt' : '$lte']: query.max_score,
+        }),
+      };
     }
 
-    // Minimum score filter
-    if (query.min_score !== undefined) {
-      filter['analysis.match_score'] = { $gte: query.min_score };
+    // Salary range filter (overlap with the job's annual range; a missing bound,
+    // as in "up to $150k" or "from $90k", is open)
+    if (query.salary_min !== undefined) {
+      conditions.push({
+        $or: [
+          { 'salary.annual_max': { $gte: query.salary_min } },
+          { 'salary.annual_min': { $exists: true }, 'salary.annual_max': { $exists: false } },
+        ],
+      });
+    }
+    if (query.salary_max !== undefined) {
+      conditions.push({
+        $or: [
+          { 'salary.annual_min': { $lte: query.salary_max } },
+          { 'salary.annual_max': { $exists: true }, 'salary.annual_min': { $exists: false } },
+        ],
+      });
     }
 
     // Location filter (city or state)
     if (query.location) {
-      filter.$or = [
-        { city: new RegExp(query.location, 'i') },
-        { state: new RegExp(query.location, 'i') },
-        { job_location: new RegExp(query.location, 'i') },
-      ];
+      const location = new RegExp(escapeRegExp(query.location), 'i');
+      conditions.push({
+        $or: [{ city: location }, { state: location }, { job_location: location }],
+      });
     }
 
-    // Employment type filter
-    if (query.employment_type) {
-      filter.employment_type = query.employment_type;
+    // Title and company substring filters
+    if (query.title) {
+      conditions.push({ job_title: new RegExp(escapeRegExp(query.title), 'i') });
+    }
+    if (query.company) {
+      conditions.push({ company_name_normalized: new RegExp(escapeRegExp(query.company), 'i') });
     }
 
-    // Work arrangement filter
-    if (query.work_arrangement) {
-      filter.work_arrangement = query.work_arrangement;
+    // Remote filter (kept out of the work_arrangement facet's own selection)
+    if (query.remote !== undefined) {
+      conditions.push({ work_arrangement: query.remote ? 'remote' : { $ne: 'remote' } });
     }
 
-    // Keyword search (search in title, description, company)
+    // Keyword search over the weighted text index
+    // Exclusion-only queries cannot use $text, so they filter with word regexes instead
     if (query.q) {
-      filter.$or = [
-        { job_title: new RegExp(query.q, 'i') },
-        { job_description: new RegExp(query.q, 'i') },
-        { company_name_normalized: new RegExp(query.q, 'i') },
-      ];
+      const search = parseSearchQuery(query.q);
+      if (hasPositiveTerms(search)) {
+        base.$text = { $search: toTextSearch(search) };
+      } else {
+        const excluded = buildExclusionRegExp(search);
+        if (excluded) {
+          base.$nor = [
+            { job_title: excluded },
+            { job_description: excluded },
+            { company_name_normalized: excluded },
+          ];
+        }
+      }
+    }
+
+    // Hidden jobs, companies and keywords
+    if (query.exclude) {
+      const { jobIds, companies, keywords } = query.exclude;
+      const hiddenIds = jobIds.filter(id => mongoose.Types.ObjectId.isValid(id));
+      if (hiddenIds.length > 0) {
+        conditions.push({
+          _id: { $nin: hiddenIds.map(id => new mongoose.Types.ObjectId(id)) },
+        });
+      }
+      if (companies.length > 0) {
+        conditions.push({
+          company_name_normalized: {
+            $nin: companies.map(company => new RegExp(`^${escapeRegExp(company)}$`, 'i')),
+          },
+        });
+      }
+      const hiddenKeywords = buildExclusionRegExp({
+        terms: [],
+        phrases: [],
+        excludedTerms: [],
+        excludedPhrases: keywords,
+      });
+      if (hiddenKeywords) {
+        conditions.push({
+          $nor: [{ job_title: hiddenKeywords }, { job_description: hiddenKeywords }],
+        });
+      }
     }
 
-    // Build sort
-    const sortBy = query.sortBy || 'updated_at';
+    if (conditions.length > 0) {
+      base.$and = conditions;
+    }
+
+    return { base, facetFilters };
+  }
+
+  /**
+   * Combine a job filter into a single query, optionally leaving out one facet's selection
+   */
+  private combineFilter(filter: JobFilter, exceptFacet?: JobFacet): { [key: string]: any } {
+    const combined = { ...filter.base };
+    for (const [facet, condition] of Object.entries(filter.facetFilters)) {
+      if (facet !== exceptFacet) {
+        Object.assign(combined, condition);
+      }
+    }
+    return combined;
+  }
+
+  /**
+   * Get paginated filtered jobs with filtering and search
+   * Supports page numbers (skip/limit) and keyset cursors; cursors stay stable
+   * while the ETL inserts new rows and avoid skipping over earlier pages
+   */
+  async getJobs(query: FilteredJobQuery): Promise<PaginatedFilteredJobs> {
+    const client = getMongoClient();
+    const db = client.db(DB_NAME);
+    const collection = db.collection(COLLECTION_NAME);
+
+    const limit = Math.min(100, Math.max(1, query.limit || 10));
+    const useCursor = query.cursor !== undefined;
+    const page = useCursor ? undefined : Math.max(1, query.page || 1);
+    const includeTotal = query.includeTotal ?? !useCursor;
+
+    const jobFilter = this.buildFilter(query);
+    const filter = this.combineFilter(jobFilter);
+    const search = filter.$text ? parseSearchQuery(query.q as string) : null;
+    if (this.usesSalaries(query)) {
+      this.ensureSalaries();
+    }
+
+    // Build sort (_id breaks ties so the order is total, as cursors require)
+    // Relevance needs a $text query (exclusion-only searches keep the default order), and
+    // scores are not stored fields, so relevance order is paged by page number only
+    const byRelevance = query.sortBy === 'relevance' && search !== null;
+    if (byRelevance && useCursor) {
+      throw new InvalidCursorError('Cursors are not supported when sorting by relevance');
+    }
+    if (query.groupDuplicates && useCursor) {
+      throw new InvalidCursorError('Cursors are not supported when grouping duplicates');
+    }
+    let sortBy: string =
+      !query.sortBy || query.sortBy === 'relevance' ? 'updated_at' : query.sortBy;
+    if (sortBy === 'salary') {
+      sortBy = SALARY_SORT_FIELD;
+    }
     const sortOrder = query.sortOrder === 'asc' ? 1 : -1;
-    const sort: { [key: string]: 1 | -1 } = { [sortBy]: sortOrder };
+    const sort: { [key: string]: any } = byRelevance
+      ? { search_score: { $meta: 'textScore' }, _id: -1 }
+      : { [sortBy]: sortOrder, _id: sortOrder };
+
+    // Start after the cursor position (throws InvalidCursorError)
+    let pageFilter = filter;
+    if (query.cursor) {
+      const position = decodeCursor(query.cursor, sortBy, sortOrder);
+      pageFilter = {
+        ...filter,
+        $and: [...(filter.$and || []), buildCursorFilter(position, sortBy, sortOrder)],
+      };
+    }
 
-    // Execute queries
-    const [data, total] = await Promise.all([
-      collection
-        .find(filter)
-        .sort(sort)
-        .skip(skip)
-        .limit(limit)
-        .toArray(),
-      collection.countDocuments(filter),
+    // Fetch one extra row to learn whether another page follows
+    let rowsQuery: Promise<Document[]>;
+    let totalQuery: Promise<number | undefined> = Promise.resolve(undefined);
+    if (query.groupDuplicates) {
+      const skip = ((page as number) - 1) * limit;
+      rowsQuery = this.getGroupedRows(filter, sort, skip, limit + 1, search !== null);
+      if (includeTotal) {
+        totalQuery = this.countGroups(filter);
+      }
+    } else {
+      let cursor = collection
+        .find(pageFilter, search ? { projection: { search_score: { $meta: 'textScore' } } } : {})
+        .sort(sort);
+      if (page !== undefined) {
+        cursor = cursor.skip((page - 1) * limit);
+      }
+      rowsQuery = cursor.limit(limit + 1).toArray();
+      // The total covers all pages, so it is counted without the cursor condition
+      if (includeTotal) {
+        totalQuery = collection.countDocuments(filter);
+      }
+    }
+
+    const [rows, total, facets] = await Promise.all([
+      rowsQuery,
+      totalQuery,
+      query.facets?.length ? this.getFacetCounts(jobFilter, query.facets) : Promise.resolve(undefined),
     ]);
 
+    const hasMore = rows.length > limit;
+    const data = rows.slice(0, limit);
+    await this.attachSalaries(data);
+
+    if (search) {
+      for (const job of data) {
+        const title = highlightField(job.job_title, search);
+        const snippet = buildSnippet(job.job_description, search);
+        job.search_highlights = {
+          ...(title && { job_title: title }),
+          ...(snippet && { job_description: snippet }),
+        };
+      }
+    }
+
     return {
       data: data as unknown as IFilteredJob[],
-      total,
-      page,
+      ...(total !== undefined && { total, totalPages: Math.ceil(total / limit) }),
+      ...(page !== undefined && { page }),
       limit,
-      totalPages: Math.ceil(total / limit),
+      nextCursor:
+        hasMore && !byRelevance && !query.groupDuplicates
+          ? encodeCursor(data[data.length - 1], sortBy, sortOrder)
+          : null,
+      ...(facets && { facets }),
     };
   }
 
+  /**
+   * Get one page of jobs with one representative per duplicate cluster
+   * The representative is the cluster's first listing in the requested order;
+   * the other listings are summarised in alsoOn.
+   */
+  private async getGroupedRows(
+    filter: { [key: string]: any },
+    sort: { [key: string]: any },
+    skip: number,
+    limit: number,
+    withScore: boolean
+  ): Promise<Document[]> {
+    const collection = getMongoClient().db(DB_NAME).collection(COLLECTION_NAME);
+
+    // Scores are added as a field so the sort after grouping can still use them
+    const groupSort = sort.search_score ? { search_score: -1, _id: -1 } : sort;
+    const groups = await collection
+      .aggregate(
+        [
+          { $match: filter },
+          ...(withScore ? [{ $addFields: { search_score: { $meta: 'textScore' } } }] : []),
+          { $sort: groupSort },
+          {
+            $group: {
+              _id: { $ifNull: ['$dedup_cluster_id', { $toString: '$_id' }] },
+              job: { $first: '$$ROOT' },
+              listings: { $push: { _id: '$_id', platform: '$platform', apply_link: '$apply_link' } },
+            },
+          },
+          { $replaceRoot: { newRoot: { $mergeObjects: ['$job', { listings: '$listings' }] } } },
+          { $sort: groupSort },
+          { $skip: skip },
+          { $limit: limit },
+        ],
+        { allowDiskUse: true }
+      )
+      .toArray();
+
+    return groups.map(({ listings, ...job }) => {
+      const others = (listings as { _id: unknown; platform: string; apply_link: string }[]).filter(
+        listing => String(listing._id) !== String(job._id)
+      );
+      return others.length > 0
+        ? { ...job, alsoOn: others.map(({ platform, apply_link }) => ({ platform, apply_link })) }
+        : job;
+    });
+  }
+
+  /**
+   * Count duplicate clusters (and unclustered jobs) matching a filter
+   */
+  private async countGroups(filter: { [key: string]: any }): Promise<number> {
+    const collection = getMongoClient().db(DB_NAME).collection(COLLECTION_NAME);
+
+    const [result] = await collection
+      .aggregate(
+        [
+          { $match: filter },
+          { $group: { _id: { $ifNull: ['$dedup_cluster_id', { $toString: '$_id' }] } } },
+          { $count: 'total' },
+        ],
+        { allowDiskUse: true }
+      )
+      .toArray();
+
+    return result?.total ?? 0;
+  }
+
+  /**
+   * Create the keyword search text index (a no-op when it already exists)
+   * Returns false when the collection has a text index with other options or
+   * another name; MongoDB allows one per collection, so that one is kept as is.
+   */
+  async createTextIndex(): Promise<boolean> {
+    const client = getMongoClient();
+    const db = client.db(DB_NAME);
+    const collection = db.collection(COLLECTION_NAME);
+
+    try {
+      await collection.createIndex(
+        { job_title: 'text', company_name_normalized: 'text', job_description: 'text' },
+        { name: TEXT_INDEX_NAME, weights: TEXT_INDEX_WEIGHTS, default_language: 'english' }
+      );
+      return true;
+    } catch (error) {
+      if (error instanceof MongoServerError && INDEX_CONFLICT_CODES.includes(Number(error.code))) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Recompute duplicate clusters and store their ids on the listings
+   * Only shown (passed) jobs are clustered. Descriptions are only loaded for
+   * companies with several listings, and only changed cluster ids are written.
+   */
+  async updateDuplicateClusters(): Promise<DuplicateClusterResult> {
+    const client = getMongoClient();
+    const db = client.db(DB_NAME);
+    const collection = db.collection(COLLECTION_NAME);
+
+    const jobs = await collection
+      .find(
+        {},
+        {
+          projection: {
+            company_name_normalized: 1,
+            job_title: 1,
+            job_location: 1,
+            city: 1,
+            'analysis.passed': 1,
+            dedup_cluster_id: 1,
+          },
+        }
+      )
+      .toArray();
+
+    const shown = jobs.filter(job => job.analysis?.passed === true);
+    const blocks = blockByCompany(
+      shown.map(job => ({ job, company: job.company_name_normalized as string }))
+    );
+    const comparable = [...blocks.values()]
+      .filter(block => block.length > 1)
+      .flat()
+      .map(({ job }) => job);
+
+    const candidates: DedupCandidate[] = [];
+    for (let i = 0; i < comparable.length; i += MAINTENANCE_BATCH_SIZE) {
+      const batch = comparable.slice(i, i + MAINTENANCE_BATCH_SIZE);
+      const descriptions = await collection
+        .find({ _id: { $in: batch.map(job => job._id) } }, { projection: { job_description: 1 } })
+        .toArray();
+      const descriptionById = new Map(
+        descriptions.map(doc => [doc._id.toString(), (doc.job_description as string) || ''])
+      );
+      for (const job of batch) {
+        candidates.push({
+          id: job._id.toString(),
+          company: job.company_name_normalized || '',
+          title: job.job_title || '',
+          location: job.city || job.job_location || '',
+          description: descriptionById.get(job._id.toString()) || '',
+        });
+      }
+    }
+
+    const clusters = clusterDuplicates(candidates);
+
+    const updates = jobs
+      .filter(job => clusters.get(job._id.toString()) !== job.dedup_cluster_id)
+      .map(job => {
+        const clusterId = clusters.get(job._id.toString());
+        return {
+          updateOne: {
+            filter: { _id: job._id },
+            update: clusterId
+              ? { $set: { dedup_cluster_id: clusterId } }
+              : { $unset: { dedup_cluster_id: '' } },
+          },
+        };
+      });
+    for (let i = 0; i < updates.length; i += MAINTENANCE_BATCH_SIZE) {
+      await collection.bulkWrite(updates.slice(i, i + MAINTENANCE_BATCH_SIZE), { ordered: false });
+    }
+
+    return {
+      clusters: new Set(clusters.values()).size,
+      clusteredJobs: clusters.size,
+      updated: updates.length,
+    };
+  }
+
+  /**
+   * Parse and cache the salaries of all jobs without a current one
+   * Concurrent calls share one run. Returns the number of jobs parsed.
+   */
+  async backfillSalaries(): Promise<number> {
+    if (!salaryBackfill) {
+      salaryBackfill = this.parseMissingSalaries().finally(() => {
+        salaryBackfill = null;
+      });
+    }
+    return salaryBackfill;
+  }
+
+  /**
+   * Whether a query filters or sorts by salary, which needs every job parsed
+   */
+  private usesSalaries(query: FilteredJobQuery): boolean {
+    return (
+      query.salary_min !== undefined || query.salary_max !== undefined || query.sortBy === 'salary'
+    );
+  }
+
+  /**
+   * Start a salary backfill in the background unless one was started recently
+   * The request is not held up: it uses the salaries already cached.
+   */
+  private ensureSalaries(): void {
+    if (Date.now() - salariesCheckedAt < SALARY_BACKFILL_INTERVAL) {
+      return;
+    }
+
+    salariesCheckedAt = Date.now();
+    this.backfillSalaries().catch(error =>
+      console.error('Failed to backfill job salaries:', error)
+    );
+  }
+
+  /**
+   * Parse salaries in batches until every job has a current one
+   */
+  private async parseMissingSalaries(): Promise<number> {
+    const collection = getMongoClient().db(DB_NAME).collection(COLLECTION_NAME);
+
+    let parsed = 0;
+    for (;;) {
+      const jobs = await collection
+        .find(
+          { salary_version: { $ne: SALARY_PARSER_VERSION } },
+          { projection: { job_title: 1, job_description: 1 } }
+        )
+        .limit(MAINTENANCE_BATCH_SIZE)
+        .toArray();
+      if (jobs.length === 0) break;
+
+      await this.cacheSalaries(jobs);
+      parsed += jobs.length;
+    }
+
+    salariesCheckedAt = Date.now();
+    return parsed;
+  }
+
+  /**
+   * Parse the salaries of jobs that lack a current one, caching them on the jobs
+   * A failed cache write is only logged: the jobs still get their salaries.
+   */
+  private async attachSalaries(jobs: Document[]): Promise<void> {
+    const stale = jobs.filter(job => job.salary_version !== SALARY_PARSER_VERSION);
+    if (stale.length > 0) {
+      await this.cacheSalaries(stale).catch(error =>
+        console.error('Failed to cache job salaries:', error)
+      );
+    }
+  }
+
+  /**
+   * Parse salaries into the given jobs and store them
+   */
+  private async cacheSalaries(jobs: Document[]): Promise<void> {
+    const collection = getMongoClient().db(DB_NAME).collection(COLLECTION_NAME);
+
+    for (const job of jobs) {
+      job.salary = parseSalary(job.job_title, job.job_description);
+      job.salary_version = SALARY_PARSER_VERSION;
+    }
+
+    await collection.bulkWrite(
+      jobs.map(job => ({
+        updateOne: {
+          filter: { _id: job._id },
+          update: { $set: { salary: job.salary, salary_version: job.salary_version } },
+        },
+      })),
+      { ordered: false }
+    );
+  }
+
+  /**
+   * Count jobs matching a query that were updated after a point in time
+   */
+  async countNewJobs(query: FilteredJobQuery, since: Date): Promise<number> {
+    const client = getMongoClient();
+    const db = client.db(DB_NAME);
+    const collection = db.collection(COLLECTION_NAME);
+
+    const filter = this.combineFilter(this.buildFilter(query));
+    if (this.usesSalaries(query)) {
+      this.ensureSalaries();
+    }
+
+    return collection.countDocuments({ ...filter, updated_at: { $gt: since } });
+  }
+
+  /**
+   * Get the best-matching jobs for a query updated after a point in time
+   */
+  async getNewJobs(query: FilteredJobQuery, since: Date, limit: number): Promise<IFilteredJob[]> {
+    const client = getMongoClient();
+    const db = client.db(DB_NAME);
+    const collection = db.collection(COLLECTION_NAME);
+
+    const filter = this.combineFilter(this.buildFilter(query));
+    // Alerts move past these jobs once sent, so salaries are parsed first rather
+    // than in the background: a job matched without its salary is never alerted
+    if (this.usesSalaries(query)) {
+      await this.backfillSalaries();
+    }
+
+    const docs = await collection
+      .find({ ...filter, updated_at: { $gt: since } })
+      .sort({ 'analysis.match_score': -1, _id: -1 })
+      .limit(limit)
+      .toArray();
+    return docs as unknown as IFilteredJob[];
+  }
+
+  /**
+   * Count matching jobs per facet value in a single $facet aggregation
+   * Each facet ignores its own selection, so the counts show what selecting
+   * another value would return (multi-select filter chips)
+   */
+  private async getFacetCounts(filter: JobFilter, facets: JobFacet[]): Promise<JobFacetCounts> {
+    const client = getMongoClient();
+    const db = client.db(DB_NAME);
+    const collection = db.collection(COLLECTION_NAME);
+
+    const facetPipelines: { [key: string]: object[] } = {};
+    for (const facet of facets) {
+      const ownSelection = this.combineFilter({ base: {}, facetFilters: filter.facetFilters }, facet);
+      facetPipelines[facet] = [
+        { $match: ownSelection },
+        { $group: { _id: `$${facet}`, count: { $sum: 1 } } },
+        { $match: { _id: { $nin: [null, ''] } } },
+        { $sort: { count: -1, _id: 1 } },
+      ];
+    }
+
+    const [result] = await collection
+      .aggregate([{ $match: filter.base }, { $facet: facetPipelines }])
+      .toArray();
+
+    const counts: JobFacetCounts = {};
+    for (const facet of facets) {
+      const buckets: { _id: unknown; count: number }[] = result?.[facet] || [];
+      counts[facet] = buckets.map(bucket => ({ value: String(bucket._id), count: bucket.count }));
+    }
+    return counts;
+  }
+
   /**
    * Get a single job by ID (using _id)
    */
@@ -169,6 +820,9 @@ class FilteredJobService {
 
     try {
       const doc = await collection.findOne({ _id: new mongoose.Types.ObjectId(id) });
+      if (doc) {
+        await this.attachSalaries([doc]);
+      }
       return doc as unknown as IFilteredJob | null;
     } catch {
       return null;
@@ -0,0 +1,91 @@
+import mongoose, { Schema, Model } from 'mongoose';
+
+/**
+ * What a block entry hides from job listings
+ * - job: a single dismissed job (value is its filtered_jobs _id)
+ * - company: every job from a company (value matches company_name_normalized)
+ * - keyword: every job whose title or description contains the word or phrase
+ */
+export const JOB_BLOCK_TYPES = ['job', 'company', 'keyword'] as const;
+
+export type JobBlockType = (typeof JOB_BLOCK_TYPES)[number];
+
+/**
+ * Job block document interface
+ * Company and keyword values are stored lowercased
+ */
+export interface IJobBlock {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  type: JobBlockType;
+  value: string;
+  label?: string; // Title and company of a dismissed job, for the block list
+  createdAt: Date;
+  updatedAt: Date;
+  toResponse(): IJobBlockResponse;
+}
+
+/**
+ * Job block response interface (public API)
+ */
+export interface IJobBlockResponse {
+  id: string;
+  type: JobBlockType;
+  value: string;
+  label?: string;
+  createdAt: Date;
+}
+
+/**
+ * Job Block Schema
+ */
+const JobBlockSchema = new Schema<IJobBlock>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: JOB_BLOCK_TYPES,
+      required: true,
+    },
+    value: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    label: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'job_blocks',
+  }
+);
+
+// Each value is blocked at most once per user; also serves loading a user's block list
+JobBlockSchema.index({ userId: 1, type: 1, value: 1 }, { unique: true });
+
+/**
+ * Convert job block to response format
+ */
+JobBlockSchema.methods.toResponse = function (this: IJobBlock): IJobBlockResponse {
+  return {
+    id: this._id.toString(),
+    type: this.type,
+    value: this.value,
+    label: this.label,
+    createdAt: this.createdAt,
+  };
+};
+
+/**
+ * Job Block Model
+ */
+const JobBlock: Model<IJobBlock> =
+  mongoose.models.JobBlock || mongoose.model<IJobBlock>('JobBlock', JobBlockSchema);
+
+export default JobBlock;
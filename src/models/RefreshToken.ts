@@ -0,0 +1,66 @@
+import mongoose, { Schema, Model } from 'mongoose';
+
+/**
+ * Refresh token document interface
+ * Tokens are rotated on every use; all tokens descending from the same
+ * login share a family so a replayed token can revoke the whole chain.
+ */
+export interface IRefreshToken {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  tokenHash: string;
+  family: string;
+  expiresAt: Date;
+  revokedAt?: Date;
+  replacedByHash?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Refresh Token Schema
+ */
+const RefreshTokenSchema = new Schema<IRefreshToken>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    tokenHash: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    family: {
+      type: String,
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    revokedAt: Date,
+    replacedByHash: String,
+  },
+  {
+    timestamps: true,
+    collection: 'refresh_tokens',
+  }
+);
+
+// Index for revoking a whole token family or all tokens of a user
+RefreshTokenSchema.index({ family: 1 });
+RefreshTokenSchema.index({ userId: 1 });
+
+// Expired tokens are removed automatically by MongoDB
+RefreshTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+/**
+ * Refresh Token Model
+ */
+const RefreshToken: Model<IRefreshToken> =
+  mongoose.models.RefreshToken ||
+  mongoose.model<IRefreshToken>('RefreshToken', RefreshTokenSchema);
+
+export default RefreshToken;
@@ -0,0 +1,119 @@
+import mongoose, { Schema, Model } from 'mongoose';
+import { FilteredJobQuery } from './FilteredJob';
+
+/**
+ * Job filters a saved search stores (paging and per-caller options are chosen per run)
+ */
+export type SavedJobQuery = Omit<
+  FilteredJobQuery,
+  'page' | 'limit' | 'cursor' | 'includeTotal' | 'facets' | 'exclude'
+>;
+
+/**
+ * How often a saved search emails new matching jobs
+ * - off: no alerts
+ * - instant: after each pipeline run
+ * - daily / weekly: in a digest once per period
+ */
+export const ALERT_FREQUENCIES = ['off', 'instant', 'daily', 'weekly'] as const;
+
+export type AlertFrequency = (typeof ALERT_FREQUENCIES)[number];
+
+/**
+ * Saved search document interface
+ * lastViewedAt marks where "new since last viewed" counting starts;
+ * lastAlertedAt marks where the next alert looks for new jobs
+ */
+export interface ISavedSearch {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  name: string;
+  query: SavedJobQuery;
+  lastViewedAt: Date;
+  alertFrequency: AlertFrequency;
+  lastAlertedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+  toResponse(): ISavedSearchResponse;
+}
+
+/**
+ * Saved search response interface (public API)
+ */
+export interface ISavedSearchResponse {
+  id: string;
+  name: string;
+  query: SavedJobQuery;
+  lastViewedAt: Date;
+  alertFrequency: AlertFrequency;
+  lastAlertedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Saved Search Schema
+ */
+const SavedSearchSchema = new Schema<ISavedSearch>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    query: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    lastViewedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    alertFrequency: {
+      type: String,
+      enum: ALERT_FREQUENCIES,
+      default: 'off',
+    },
+    lastAlertedAt: Date,
+  },
+  {
+    timestamps: true,
+    collection: 'saved_searches',
+    minimize: false,
+  }
+);
+
+// Index for listing a user's saved searches
+SavedSearchSchema.index({ userId: 1, createdAt: -1 });
+
+// Index for finding searches with alerts due
+SavedSearchSchema.index({ alertFrequency: 1, lastAlertedAt: 1 });
+
+/**
+ * Convert saved search to response format
+ */
+SavedSearchSchema.methods.toResponse = function (this: ISavedSearch): ISavedSearchResponse {
+  return {
+    id: this._id.toString(),
+    name: this.name,
+    query: this.query,
+    lastViewedAt: this.lastViewedAt,
+    alertFrequency: this.alertFrequency,
+    lastAlertedAt: this.lastAlertedAt,
+    createdAt: this.createdAt,
+    updatedAt: this.updatedAt,
+  };
+};
+
+/**
+ * Saved Search Model
+ */
+const SavedSearch: Model<ISavedSearch> =
+  mongoose.models.SavedSearch || mongoose.model<ISavedSearch>('SavedSearch', SavedSearchSchema);
+
+export default SavedSearch;
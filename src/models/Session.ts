@@ -0,0 +1,92 @@
+import mongoose, { Schema, Model } from 'mongoose';
+
+/**
+ * Login session document interface
+ * One session is created per login; its refresh tokens share the session id as family
+ */
+export interface ISession {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  userAgent?: string;
+  ip?: string;
+  lastSeenAt: Date;
+  expiresAt: Date;
+  revokedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+  isActive(): boolean;
+  toResponse(): ISessionResponse;
+}
+
+/**
+ * Session response interface (public API)
+ */
+export interface ISessionResponse {
+  id: string;
+  userAgent?: string;
+  ip?: string;
+  createdAt: Date;
+  lastSeenAt: Date;
+}
+
+/**
+ * Session Schema
+ */
+const SessionSchema = new Schema<ISession>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    userAgent: String,
+    ip: String,
+    lastSeenAt: {
+      type: Date,
+      default: Date.now,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    revokedAt: Date,
+  },
+  {
+    timestamps: true,
+    collection: 'sessions',
+  }
+);
+
+// Index for listing a user's sessions
+SessionSchema.index({ userId: 1, revokedAt: 1 });
+
+// Expired sessions are removed automatically by MongoDB
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+/**
+ * Check whether the session is neither revoked nor expired
+ */
+SessionSchema.methods.isActive = function (this: ISession): boolean {
+  return !this.revokedAt && this.expiresAt > new Date();
+};
+
+/**
+ * Convert session to response format
+ */
+SessionSchema.methods.toResponse = function (this: ISession): ISessionResponse {
+  return {
+    id: this._id.toString(),
+    userAgent: this.userAgent,
+    ip: this.ip,
+    createdAt: this.createdAt,
+    lastSeenAt: this.lastSeenAt,
+  };
+};
+
+/**
+ * Session Model
+ */
+const Session: Model<ISession> =
+  mongoose.models.Session || mongoose.model<ISession>('Session', SessionSchema);
+
+export default Session;
@@ -1,5 +1,69 @@
 import mongoose, { Schema, Model } from 'mongoose';
 import bcrypt from 'bcryptjs';
+import crypto from 'crypto';
+import { generateSecureToken, hashOneTimeCode, hashToken, safeEqual } from '../utils/crypto';
+
+/**
+ * User roles
+ * - user: regular job seeker
+ * - coach: career coach supporting job seekers
+ * - admin: operator with access to pipeline and admin endpoints
+ */
+export const USER_ROLES = ['user', 'coach', 'admin'] as const;
+
+export type UserRole = (typeof USER_ROLES)[number];
+
+/**
+ * Visa types a user can select on their profile
+ * Numeric values are Australian visa subclasses
+ */
+export const VISA_TYPES = [
+  '491', // Skilled Work Regional (Provisional)
+  '494', // Skilled Employer Sponsored Regional (Provisional)
+  '482', // Temporary Skill Shortage
+  '485', // Temporary Graduate
+  '500', // Student
+  '417', // Working Holiday
+  '462', // Work and Holiday
+  '189', // Skilled Independent
+  '190', // Skilled Nominated
+  '186', // Employer Nomination Scheme
+  'permanent_resident',
+  'citizen',
+  'other',
+] as const;
+
+export type VisaType = (typeof VISA_TYPES)[number];
+
+/**
+ * One-time code types and the user fields each one is stored in
+ * Every code type has its own fields so issuing one never clobbers another.
+ * Codes are stored as HMAC digests, never in plain text.
+ */
+export const ONE_TIME_CODE_FIELDS = {
+  verification: {
+    code: 'verificationCode',
+    expires: 'verificationCodeExpires',
+    attempts: 'verificationAttempts',
+  },
+  emailChange: {
+    code: 'emailChangeCode',
+    expires: 'emailChangeCodeExpires',
+    attempts: 'emailChangeAttempts',
+  },
+  login: {
+    code: 'loginCode',
+    expires: 'loginCodeExpires',
+    attempts: 'loginCodeAttempts',
+  },
+} as const;
+
+export type OneTimeCodeType = keyof typeof ONE_TIME_CODE_FIELDS;
+
+/**
+ * One-time code lifetime: 15 minutes
+ */
+export const ONE_TIME_CODE_TTL = 15 * 60 * 1000;
 
 /**
  * User profile interface
@@ -23,13 +87,36 @@ export interface IUser {
   email: string;
   passwordHash: string;
   emailVerified: boolean;
+  role: UserRole;
   verificationCode?: string;
   verificationCodeExpires?: Date;
+  verificationAttempts?: number;
+  pendingEmail?: string;
+  emailChangeCode?: string;
+  emailChangeCodeExpires?: Date;
+  emailChangeAttempts?: number;
+  loginCode?: string;
+  loginCodeExpires?: Date;
+  loginCodeAttempts?: number;
+  passwordResetToken?: string;
+  passwordResetExpires?: Date;
+  passwordChangedAt?: Date;
+  deletionScheduledFor?: Date;
+  twoFactorEnabled: boolean;
+  twoFactorSecret?: string;
+  twoFactorPendingSecret?: string;
+  twoFactorRecoveryCodes?: string[];
+  twoFactorLastStep?: number;
   profile: IUserProfile;
   createdAt: Date;
   updatedAt: Date;
   comparePassword(password: string): Promise<boolean>;
+  generateOneTimeCode(type: OneTimeCodeType): string;
+  matchesOneTimeCode(type: OneTimeCodeType, code: string): boolean;
   generateVerificationCode(): string;
+  generateEmailChangeCode(newEmail: string): string;
+  generateLoginCode(): string;
+  generatePasswordResetToken(): string;
   toResponse(): IUserResponse;
 }
 
@@ -48,7 +135,10 @@ export interface IUserResponse {
   id: string;
   email: string;
   emailVerified: boolean;
+  role: UserRole;
+  twoFactorEnabled: boolean;
   profile: IUserProfile;
+  deletionScheduledFor?: Date;
   createdAt: Date;
 }
 
@@ -74,6 +164,11 @@ const UserSchema = new Schema<IUser>(
       type: Boolean,
       default: false,
     },
+    role: {
+      type: String,
+      enum: USER_ROLES,
+      default: 'user',
+    },
     verificationCode: {
       type: String,
       select: false,
@@ -82,6 +177,75 @@ const UserSchema = new Schema<IUser>(
       type: Date,
       select: false,
     },
+    verificationAttempts: {
+      type: Number,
+      select: false,
+    },
+    pendingEmail: {
+      type: String,
+      lowercase: true,
+      trim: true,
+      select: false,
+    },
+    emailChangeCode: {
+      type: String,
+      select: false,
+    },
+    emailChangeCodeExpires: {
+      type: Date,
+      select: false,
+    },
+    emailChangeAttempts: {
+      type: Number,
+      select: false,
+    },
+    loginCode: {
+      type: String,
+      select: false,
+    },
+    loginCodeExpires: {
+      type: Date,
+      select: false,
+    },
+    loginCodeAttempts: {
+      type: Number,
+      select: false,
+    },
+    passwordResetToken: {
+      type: String,
+      select: false,
+    },
+    passwordResetExpires: {
+      type: Date,
+      select: false,
+    },
+    passwordChangedAt: {
+      type: Date,
+    },
+    deletionScheduledFor: {
+      type: Date,
+    },
+    twoFactorEnabled: {
+      type: Boolean,
+      default: false,
+    },
+    twoFactorSecret: {
+      type: String,
+      select: false,
+    },
+    twoFactorPendingSecret: {
+      type: String,
+      select: false,
+    },
+    twoFactorRecoveryCodes: {
+      type: [String],
+      select: false,
+      default: undefined,
+    },
+    twoFactorLastStep: {
+      type: Number,
+      select: false,
+    },
     profile: {
       name: String,
       visaType: String,
@@ -102,6 +266,12 @@ const UserSchema = new Schema<IUser>(
 // Index for verification code lookups with expiry
 UserSchema.index({ verificationCode: 1, verificationCodeExpires: 1 });
 
+// Index for finding accounts due for deletion
+UserSchema.index({ deletionScheduledFor: 1 }, { sparse: true });
+
+// Index for password reset token lookups
+UserSchema.index({ passwordResetToken: 1 }, { sparse: true });
+
 /**
  * Compare password method
  */
@@ -113,17 +283,72 @@ UserSchema.methods.comparePassword = async function (
 };
 
 /**
- * Generate verification code method
+ * Generate a one-time code of the given type
+ * Resets the code's attempt counter; other code types are left untouched.
+ * Only the hash is stored; the plain code is returned for emailing
  */
-UserSchema.methods.generateVerificationCode = function (this: IUser): string {
+UserSchema.methods.generateOneTimeCode = function (
+  this: mongoose.HydratedDocument<IUser>,
+  type: OneTimeCodeType
+): string {
+  const fields = ONE_TIME_CODE_FIELDS[type];
   // Generate a 6-digit code
-  const code = Math.floor(100000 + Math.random() * 900000).toString();
-  this.verificationCode = code;
-  // Code expires in 15 minutes
-  this.verificationCodeExpires = new Date(Date.now() + 15 * 60 * 1000);
+  const code = crypto.randomInt(100000, 1000000).toString();
+  this.set(fields.code, hashOneTimeCode(code));
+  this.set(fields.expires, new Date(Date.now() + ONE_TIME_CODE_TTL));
+  this.set(fields.attempts, 0);
   return code;
 };
 
+/**
+ * Check a submitted one-time code against the stored hash in constant time
+ * The code field must have been selected
+ */
+UserSchema.methods.matchesOneTimeCode = function (
+  this: mongoose.HydratedDocument<IUser>,
+  type: OneTimeCodeType,
+  code: string
+): boolean {
+  const stored: string | undefined = this.get(ONE_TIME_CODE_FIELDS[type].code);
+  return Boolean(stored) && safeEqual(stored as string, hashOneTimeCode(code));
+};
+
+/**
+ * Generate verification code method
+ */
+UserSchema.methods.generateVerificationCode = function (this: IUser): string {
+  return this.generateOneTimeCode('verification');
+};
+
+/**
+ * Generate email change code method
+ * The code is sent to the new address, which only replaces the current one
+ * once confirmed
+ */
+UserSchema.methods.generateEmailChangeCode = function (this: IUser, newEmail: string): string {
+  this.pendingEmail = newEmail;
+  return this.generateOneTimeCode('emailChange');
+};
+
+/**
+ * Generate passwordless login code method
+ */
+UserSchema.methods.generateLoginCode = function (this: IUser): string {
+  return this.generateOneTimeCode('login');
+};
+
+/**
+ * Generate password reset token method
+ * Only the SHA-256 hash is stored; the raw token is returned for emailing
+ */
+UserSchema.methods.generatePasswordResetToken = function (this: IUser): string {
+  const token = generateSecureToken();
+  this.passwordResetToken = hashToken(token);
+  // Token expires in 1 hour
+  this.passwordResetExpires = new Date(Date.now() + 60 * 60 * 1000);
+  return token;
+};
+
 /**
  * Convert user to response format (excluding sensitive data)
  */
@@ -132,7 +357,10 @@ UserSchema.methods.toResponse = function (this: IUser): IUserResponse {
     id: this._id.toString(),
     email: this.email,
     emailVerified: this.emailVerified,
+    role: this.role,
+    twoFactorEnabled: this.twoFactorEnabled,
     profile: this.profile,
+    deletionScheduledFor: this.deletionScheduledFor,
     createdAt: this.createdAt,
   };
 };
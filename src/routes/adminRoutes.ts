@@ -0,0 +1,51 @@
+import { Router } from 'express';
+import adminController, {
+  listAuthEventsSchema,
+  listUsersSchema,
+  setRoleSchema,
+} from '../controllers/adminController';
+import { authenticate, requireRole } from '../middleware/authMiddleware';
+import { validateBody, validateQuery } from '../middleware/validateMiddleware';
+
+/**
+ * Admin Routes
+ * Base path: /api/admin
+ */
+const router = Router();
+
+/**
+ * All admin routes require the admin role
+ */
+router.use(authenticate, requireRole('admin'));
+
+/**
+ * GET /api/admin/users
+ * List users (optionally filtered by role)
+ */
+router.get(
+  '/users',
+  validateQuery(listUsersSchema),
+  adminController.listUsers.bind(adminController)
+);
+
+/**
+ * PATCH /api/admin/users/:id/role
+ * Change a user's role
+ */
+router.patch(
+  '/users/:id/role',
+  validateBody(setRoleSchema),
+  adminController.setUserRole.bind(adminController)
+);
+
+/**
+ * GET /api/admin/auth-events
+ * Query the authentication audit log by user, type, outcome and date range
+ */
+router.get(
+  '/auth-events',
+  validateQuery(listAuthEventsSchema),
+  adminController.listAuthEvents.bind(adminController)
+);
+
+export default router;
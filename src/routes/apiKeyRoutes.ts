@@ -0,0 +1,39 @@
+import { Router } from 'express';
+import apiKeyController, { createApiKeySchema } from '../controllers/apiKeyController';
+import { authenticate } from '../middleware/authMiddleware';
+import { validateBody } from '../middleware/validateMiddleware';
+
+/**
+ * API Key Routes
+ * Base path: /api/auth/api-keys
+ */
+const router = Router();
+
+/**
+ * Keys can only be managed from a login session, never with another API key
+ */
+router.use(authenticate);
+
+/**
+ * POST /api/auth/api-keys
+ * Create an API key with a name and scopes
+ */
+router.post(
+  '/',
+  validateBody(createApiKeySchema),
+  apiKeyController.createKey.bind(apiKeyController)
+);
+
+/**
+ * GET /api/auth/api-keys
+ * List active API keys
+ */
+router.get('/', apiKeyController.listKeys.bind(apiKeyController));
+
+/**
+ * DELETE /api/auth/api-keys/:id
+ * Revoke an API key
+ */
+router.delete('/:id', apiKeyController.revokeKey.bind(apiKeyController));
+
+export default router;
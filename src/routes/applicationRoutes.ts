@@ -0,0 +1,70 @@
+import { Router } from 'express';
+import applicationController, {
+  createApplicationSchema,
+  listApplicationsQuerySchema,
+  updateApplicationSchema,
+} from '../controllers/applicationController';
+import { authenticate } from '../middleware/authMiddleware';
+import { validateBody, validateQuery } from '../middleware/validateMiddleware';
+
+/**
+ * Application Routes
+ * Base path: /api/applications
+ */
+const router = Router();
+
+router.use(authenticate);
+
+/**
+ * POST /api/applications
+ * Start tracking an application for a listed job (jobId) or an external one
+ * (job: { title, company, location?, applyLink? })
+ * Optional: status (default: saved), notes, contacts, nextAction, nextActionDate
+ */
+router.post(
+  '/',
+  validateBody(createApplicationSchema),
+  applicationController.createApplication.bind(applicationController)
+);
+
+/**
+ * GET /api/applications
+ * List applications, most recently updated first
+ * Query params: status (comma list), page, limit (default: 20, max: 100)
+ */
+router.get(
+  '/',
+  validateQuery(listApplicationsQuerySchema),
+  applicationController.listApplications.bind(applicationController)
+);
+
+/**
+ * GET /api/applications/summary
+ * Count applications per status (for the kanban board)
+ */
+router.get('/summary', applicationController.getSummary.bind(applicationController));
+
+/**
+ * GET /api/applications/:id
+ * Get an application with its status history
+ */
+router.get('/:id', applicationController.getApplication.bind(applicationController));
+
+/**
+ * PATCH /api/applications/:id
+ * Update status, notes, contacts or next action (null clears a field);
+ * status changes are recorded in the status history
+ */
+router.patch(
+  '/:id',
+  validateBody(updateApplicationSchema),
+  applicationController.updateApplication.bind(applicationController)
+);
+
+/**
+ * DELETE /api/applications/:id
+ * Stop tracking an application
+ */
+router.delete('/:id', applicationController.deleteApplication.bind(applicationController));
+
+export default router;
@@ -3,10 +3,24 @@ import authController, {
   registerSchema,
   verifyEmailSchema,
   loginSchema,
+  requestLoginCodeSchema,
+  verifyLoginCodeSchema,
   resendVerificationSchema,
+  refreshTokenSchema,
+  logoutSchema,
+  updateProfileSchema,
+  changeEmailSchema,
+  confirmEmailChangeSchema,
+  deleteAccountSchema,
+  activityQuerySchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  loginTwoFactorSchema,
+  confirmTwoFactorSchema,
+  disableTwoFactorSchema,
 } from '../controllers/authController';
 import { authenticate } from '../middleware/authMiddleware';
-import { validateBody } from '../middleware/validateMiddleware';
+import { validateBody, validateQuery } from '../middleware/validateMiddleware';
 
 /**
  * Authentication Routes
@@ -44,17 +58,182 @@ router.post(
   authController.login.bind(authController)
 );
 
+/**
+ * POST /api/auth/login/email-code
+ * Send a passwordless login code by email
+ */
+router.post(
+  '/login/email-code',
+  validateBody(requestLoginCodeSchema),
+  authController.requestLoginCode.bind(authController)
+);
+
+/**
+ * POST /api/auth/login/email-code/verify
+ * Login with an emailed code
+ */
+router.post(
+  '/login/email-code/verify',
+  validateBody(verifyLoginCodeSchema),
+  authController.verifyLoginCode.bind(authController)
+);
+
+/**
+ * POST /api/auth/login/2fa
+ * Complete a login with an authenticator or recovery code
+ */
+router.post(
+  '/login/2fa',
+  validateBody(loginTwoFactorSchema),
+  authController.loginTwoFactor.bind(authController)
+);
+
+/**
+ * POST /api/auth/2fa/setup
+ * Start two-factor enrollment
+ */
+router.post('/2fa/setup', authenticate, authController.setupTwoFactor.bind(authController));
+
+/**
+ * POST /api/auth/2fa/confirm
+ * Confirm two-factor enrollment with a first code
+ */
+router.post(
+  '/2fa/confirm',
+  authenticate,
+  validateBody(confirmTwoFactorSchema),
+  authController.confirmTwoFactor.bind(authController)
+);
+
+/**
+ * POST /api/auth/2fa/disable
+ * Disable two-factor authentication
+ */
+router.post(
+  '/2fa/disable',
+  authenticate,
+  validateBody(disableTwoFactorSchema),
+  authController.disableTwoFactor.bind(authController)
+);
+
 /**
  * GET /api/auth/me
  * Get current authenticated user
  */
 router.get('/me', authenticate, authController.me.bind(authController));
 
+/**
+ * DELETE /api/auth/me
+ * Delete the current account (requires password, applies a grace period)
+ */
+router.delete(
+  '/me',
+  authenticate,
+  validateBody(deleteAccountSchema),
+  authController.deleteAccount.bind(authController)
+);
+
+/**
+ * GET /api/auth/me/export
+ * Download all personal data held about the current user
+ */
+router.get('/me/export', authenticate, authController.exportData.bind(authController));
+
+/**
+ * GET /api/auth/me/activity
+ * List the current user's logins, failed attempts and other auth events
+ */
+router.get(
+  '/me/activity',
+  authenticate,
+  validateQuery(activityQuerySchema),
+  authController.activity.bind(authController)
+);
+
+/**
+ * GET /api/auth/me/profile
+ * Get current user's profile
+ */
+router.get('/me/profile', authenticate, authController.getProfile.bind(authController));
+
+/**
+ * PATCH /api/auth/me/profile
+ * Update current user's profile (null clears a field)
+ */
+router.patch(
+  '/me/profile',
+  authenticate,
+  validateBody(updateProfileSchema),
+  authController.updateProfile.bind(authController)
+);
+
+/**
+ * POST /api/auth/me/email
+ * Start changing the account email (code is sent to the new address)
+ */
+router.post(
+  '/me/email',
+  authenticate,
+  validateBody(changeEmailSchema),
+  authController.requestEmailChange.bind(authController)
+);
+
+/**
+ * POST /api/auth/me/email/confirm
+ * Confirm the email change with the code
+ */
+router.post(
+  '/me/email/confirm',
+  authenticate,
+  validateBody(confirmEmailChangeSchema),
+  authController.confirmEmailChange.bind(authController)
+);
+
+/**
+ * POST /api/auth/refresh
+ * Exchange a refresh token for a new access/refresh token pair
+ */
+router.post(
+  '/refresh',
+  validateBody(refreshTokenSchema),
+  authController.refresh.bind(authController)
+);
+
 /**
  * POST /api/auth/logout
- * Logout current user
+ * Logout current user (revokes the given refresh token)
+ */
+router.post(
+  '/logout',
+  validateBody(logoutSchema),
+  authController.logout.bind(authController)
+);
+
+/**
+ * GET /api/auth/sessions
+ * List active login sessions of the current user
+ */
+router.get('/sessions', authenticate, authController.listSessions.bind(authController));
+
+/**
+ * DELETE /api/auth/sessions
+ * Sign out of all sessions except the current one
  */
-router.post('/logout', authController.logout.bind(authController));
+router.delete(
+  '/sessions',
+  authenticate,
+  authController.revokeOtherSessions.bind(authController)
+);
+
+/**
+ * DELETE /api/auth/sessions/:id
+ * Sign out a single session
+ */
+router.delete(
+  '/sessions/:id',
+  authenticate,
+  authController.revokeSession.bind(authController)
+);
 
 /**
  * POST /api/auth/resend-verification
@@ -66,4 +245,24 @@ router.post(
   authController.resendVerification.bind(authController)
 );
 
+/**
+ * POST /api/auth/forgot-password
+ * Send a password reset link
+ */
+router.post(
+  '/forgot-password',
+  validateBody(forgotPasswordSchema),
+  authController.forgotPassword.bind(authController)
+);
+
+/**
+ * POST /api/auth/reset-password
+ * Set a new password using a reset token
+ */
+router.post(
+  '/reset-password',
+  validateBody(resetPasswordSchema),
+  authController.resetPassword.bind(authController)
+);
+
 export default router;
@@ -0,0 +1,44 @@
+import { Router } from 'express';
+import bookmarkController, { listBookmarksQuerySchema } from '../controllers/bookmarkController';
+import { authenticate } from '../middleware/authMiddleware';
+import { validateQuery } from '../middleware/validateMiddleware';
+
+/**
+ * Bookmark Routes
+ * Base path: /api
+ */
+const router = Router();
+
+/**
+ * POST /api/jobs/:id/bookmark
+ * Bookmark a job (stores a snapshot of its key fields; repeating refreshes it)
+ */
+router.post(
+  '/jobs/:id/bookmark',
+  authenticate,
+  bookmarkController.addBookmark.bind(bookmarkController)
+);
+
+/**
+ * DELETE /api/jobs/:id/bookmark
+ * Remove a bookmark
+ */
+router.delete(
+  '/jobs/:id/bookmark',
+  authenticate,
+  bookmarkController.removeBookmark.bind(bookmarkController)
+);
+
+/**
+ * GET /api/me/bookmarks
+ * List bookmarked jobs, newest first
+ * Query params: page, limit (default: 20, max: 100)
+ */
+router.get(
+  '/me/bookmarks',
+  authenticate,
+  validateQuery(listBookmarksQuerySchema),
+  bookmarkController.listBookmarks.bind(bookmarkController)
+);
+
+export default router;
@@ -1,46 +1,81 @@
 import { Router } from 'express';
-import filteredJobController from '../controllers/filteredJobController';
+import filteredJobController, { listJobsQuerySchema } from '../controllers/filteredJobController';
+import { optionalAuthenticateWithScope } from '../middleware/authMiddleware';
+import { validateQuery } from '../middleware/validateMiddleware';
 
 const router = Router();
 
+/**
+ * Job routes are public; API keys are accepted with the jobs:read scope
+ */
+const jobsAuth = optionalAuthenticateWithScope('jobs:read');
+
 /**
  * GET /api/jobs
- * Query params:
+ * Query params (all filters are combined with AND):
  * - page: number (default: 1)
  * - limit: number (default: 10, max: 100)
- * - q: string (keyword search in title, description, company)
+ * - cursor: string (nextCursor of the previous page; empty for the first page; replaces page)
+ * - includeTotal: 'true' | 'false' (default: true with page, false with cursor)
+ * - facets: comma list of platform, employment_type, work_arrangement, state, date
+ *   (counts per value; each facet ignores its own filter so multi-select works)
+ * - query: string (query language, e.g. title:"data engineer" score>=70 platform:seek,linkedin
+ *   remote:true posted:<7d; fields: title, company, location, platform, state, type,
+ *   arrangement, remote, score, posted; other words and URLs add to q)
+ * - q: string (keyword search in title, company, description; supports "phrases" and -exclusions)
  * - location: string (city or state)
- * - employmentType: string (employment_type filter)
- * - workArrangement: string (work_arrangement filter)
- * - platform: string (linkedin|indeed|seek)
- * - minScore: number (minimum match_score)
+ * - employmentType: comma list (employment_type filter, matches any)
+ * - workArrangement: comma list (work_arrangement filter, matches any)
+ * - platform: comma list of linkedin|indeed|seek
+ * - state: comma list (exact state filter, matches any)
+ * - minScore / maxScore: number (match_score range, inclusive)
  * - date: string (YYYY-MM-DD format)
- * - sortBy: string (default: updated_at)
+ * - dateFrom / dateTo: string (YYYY-MM-DD, inclusive range)
+ * - salaryMin / salaryMax: number (annual AUD excluding super, parsed from the ad;
+ *   matches jobs whose advertised range overlaps, with "up to" and "from" ranges open at
+ *   the other end; jobs without a salary are left out, as are new jobs until the
+ *   background salary parse reaches them)
+ * - sortBy: updated_at | created_at | date | analysis.match_score | job_title |
+ *   company_name_normalized | platform | relevance | salary (default: updated_at;
+ *   'relevance' ranks keyword matches, page mode only;
+ *   'salary' sorts by the top of the annual AUD range, jobs without a salary or a top last
+ *   descending)
  * - sortOrder: 'asc' | 'desc' (default: desc)
+ * - groupDuplicates: 'true' | 'false' (default: false; one listing per role posted on several
+ *   platforms, with the others in alsoOn: [{ platform, apply_link }]; page mode only;
+ *   total counts groups while facets still count listings)
+ * - includeHidden: 'true' | 'false' (default: false; signed-in callers don't see jobs,
+ *   companies and keywords they have hidden)
+ * Signed-in callers also get bookmarked: boolean on each job
  */
-router.get('/jobs', filteredJobController.listJobs.bind(filteredJobController));
+router.get(
+  '/jobs',
+  jobsAuth,
+  validateQuery(listJobsQuerySchema),
+  filteredJobController.listJobs.bind(filteredJobController)
+);
 
 /**
  * GET /api/jobs/stats/summary
  * Returns overall statistics including platform breakdown and average score
  */
-router.get('/jobs/stats/summary', filteredJobController.getStats.bind(filteredJobController));
+router.get('/jobs/stats/summary', jobsAuth, filteredJobController.getStats.bind(filteredJobController));
 
 /**
  * GET /api/jobs/stats/platforms
  * Returns job counts grouped by platform
  */
-router.get('/jobs/stats/platforms', filteredJobController.getPlatformStats.bind(filteredJobController));
+router.get('/jobs/stats/platforms', jobsAuth, filteredJobController.getPlatformStats.bind(filteredJobController));
 
 /**
  * GET /api/jobs/stats/dates
  * Returns available dates with job data
  */
-router.get('/jobs/stats/dates', filteredJobController.getDateStats.bind(filteredJobController));
+router.get('/jobs/stats/dates', jobsAuth, filteredJobController.getDateStats.bind(filteredJobController));
 
 /**
  * GET /api/jobs/:id
  */
-router.get('/jobs/:id', filteredJobController.getJob.bind(filteredJobController));
+router.get('/jobs/:id', jobsAuth, filteredJobController.getJob.bind(filteredJobController));
 
 export default router;
@@ -0,0 +1,69 @@
+import { Router } from 'express';
+import jobBlockController, {
+  addJobBlockSchema,
+  listJobBlocksQuerySchema,
+} from '../controllers/jobBlockController';
+import { authenticate } from '../middleware/authMiddleware';
+import { validateBody, validateQuery } from '../middleware/validateMiddleware';
+
+/**
+ * Job Block Routes
+ * Base path: /api
+ */
+const router = Router();
+
+/**
+ * POST /api/jobs/:id/dismiss
+ * Hide a job from the caller's listings
+ */
+router.post(
+  '/jobs/:id/dismiss',
+  authenticate,
+  jobBlockController.dismissJob.bind(jobBlockController)
+);
+
+/**
+ * DELETE /api/jobs/:id/dismiss
+ * Show a dismissed job again
+ */
+router.delete(
+  '/jobs/:id/dismiss',
+  authenticate,
+  jobBlockController.restoreJob.bind(jobBlockController)
+);
+
+/**
+ * GET /api/me/blocklist
+ * List dismissed jobs and blocked companies and keywords, newest first
+ * Query params: type (job | company | keyword)
+ */
+router.get(
+  '/me/blocklist',
+  authenticate,
+  validateQuery(listJobBlocksQuerySchema),
+  jobBlockController.listBlocks.bind(jobBlockController)
+);
+
+/**
+ * POST /api/me/blocklist
+ * Block a company (matches company_name_normalized) or a keyword (word or
+ * phrase in the title or description); values are case-insensitive
+ */
+router.post(
+  '/me/blocklist',
+  authenticate,
+  validateBody(addJobBlockSchema),
+  jobBlockController.addBlock.bind(jobBlockController)
+);
+
+/**
+ * DELETE /api/me/blocklist/:id
+ * Remove a block list entry (including dismissed jobs)
+ */
+router.delete(
+  '/me/blocklist/:id',
+  authenticate,
+  jobBlockController.removeBlock.bind(jobBlockController)
+);
+
+export default router;
@@ -1,16 +1,19 @@
 import express from 'express';
 import pipelineController from '../controllers/pipelineController';
+import { authenticate, requireRole } from '../middleware/authMiddleware';
 
 const router = express.Router();
 
 /**
  * Pipeline routes for triggering and monitoring job scraper ETL pipeline
+ * Restricted to admins
  */
+router.use(authenticate, requireRole('admin'));
 
 // GET /api/pipeline/status - Get current pipeline status
-router.get('/status', pipelineController.getStatus);
+router.get('/status', pipelineController.getStatus.bind(pipelineController));
 
 // POST /api/pipeline/trigger - Manually trigger pipeline run
-router.post('/trigger', pipelineController.triggerPipeline);
+router.post('/trigger', pipelineController.triggerPipeline.bind(pipelineController));
 
 export default router;
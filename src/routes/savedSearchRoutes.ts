@@ -0,0 +1,80 @@
+import { Router } from 'express';
+import savedSearchController, {
+  createSavedSearchSchema,
+  runSavedSearchQuerySchema,
+  unsubscribeAlertsSchema,
+  updateSavedSearchSchema,
+} from '../controllers/savedSearchController';
+import { authenticate } from '../middleware/authMiddleware';
+import { validateBody, validateQuery } from '../middleware/validateMiddleware';
+
+/**
+ * Saved Search Routes
+ * Base path: /api/saved-searches
+ */
+const router = Router();
+
+/**
+ * POST /api/saved-searches/alerts/unsubscribe?token=...
+ * Turn off job alerts using the token from an alert email (also the
+ * one-click List-Unsubscribe target, so it takes no login)
+ */
+router.post(
+  '/alerts/unsubscribe',
+  validateQuery(unsubscribeAlertsSchema),
+  savedSearchController.unsubscribeAlerts.bind(savedSearchController)
+);
+
+router.use(authenticate);
+
+/**
+ * POST /api/saved-searches
+ * Save a search ({ name, query, alertFrequency? } with FilteredJobQuery filter fields)
+ * alertFrequency: off (default) | instant (after pipeline runs) | daily | weekly
+ */
+router.post(
+  '/',
+  validateBody(createSavedSearchSchema),
+  savedSearchController.createSearch.bind(savedSearchController)
+);
+
+/**
+ * GET /api/saved-searches
+ * List saved searches with the number of jobs new since each was last viewed
+ */
+router.get('/', savedSearchController.listSearches.bind(savedSearchController));
+
+/**
+ * GET /api/saved-searches/:id/jobs
+ * Run a saved search (page, limit, cursor, includeTotal, facets as in GET /api/jobs)
+ * Viewing the first page resets the new job count
+ */
+router.get(
+  '/:id/jobs',
+  validateQuery(runSavedSearchQuerySchema),
+  savedSearchController.runSearch.bind(savedSearchController)
+);
+
+/**
+ * GET /api/saved-searches/:id
+ * Get a saved search
+ */
+router.get('/:id', savedSearchController.getSearch.bind(savedSearchController));
+
+/**
+ * PATCH /api/saved-searches/:id
+ * Rename a saved search, replace its filters or change its alerts
+ */
+router.patch(
+  '/:id',
+  validateBody(updateSavedSearchSchema),
+  savedSearchController.updateSearch.bind(savedSearchController)
+);
+
+/**
+ * DELETE /api/saved-searches/:id
+ * Delete a saved search
+ */
+router.delete('/:id', savedSearchController.deleteSearch.bind(savedSearchController));
+
+export default router;
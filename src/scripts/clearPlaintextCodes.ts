@@ -0,0 +1,40 @@
+/**
+ * Clear one-time codes stored in plain text before codes were hashed
+ *
+ * Usage:
+ *   npm run clear-plaintext-codes
+ *
+ * Hashed codes are 64-character hex digests, so any stored 6-digit value is
+ * a legacy plain-text code. Affected users simply request a new code
+ * (e.g. POST /api/auth/resend-verification).
+ */
+import path from 'path';
+import dotenv from 'dotenv';
+
+// Load environment variables before the database config reads them
+dotenv.config({ path: path.resolve(__dirname, '../../.env') });
+
+import { connectDatabase, disconnectDatabase } from '../config/database';
+import User, { ONE_TIME_CODE_FIELDS, OneTimeCodeType } from '../models/User';
+
+async function main(): Promise<void> {
+  await connectDatabase();
+
+  try {
+    for (const type of Object.keys(ONE_TIME_CODE_FIELDS) as OneTimeCodeType[]) {
+      const fields = ONE_TIME_CODE_FIELDS[type];
+      const result = await User.updateMany(
+        { [fields.code]: { $regex: /^\d{6}$/ } },
+        { $unset: { [fields.code]: '', [fields.expires]: '', [fields.attempts]: '' } }
+      );
+      console.log(`Cleared ${result.modifiedCount} plain-text ${type} code(s)`);
+    }
+  } finally {
+    await disconnectDatabase();
+  }
+}
+
+main().catch(error => {
+  console.error('Failed to clear plain-text codes:', error);
+  process.exit(1);
+});
@@ -0,0 +1,32 @@
+/**
+ * Recompute duplicate job clusters
+ *
+ * Usage:
+ *   npm run cluster-duplicates
+ *
+ * Clusters are refreshed after every pipeline run; run this to backfill
+ * cluster ids for jobs scraped before duplicate grouping existed.
+ */
+import path from 'path';
+import dotenv from 'dotenv';
+
+// Load environment variables before the database config reads them
+dotenv.config({ path: path.resolve(__dirname, '../../.env') });
+
+import filteredJobService, { disconnectFilteredJobs } from '../models/FilteredJob';
+
+async function main(): Promise<void> {
+  try {
+    const result = await filteredJobService.updateDuplicateClusters();
+    console.log(
+      `Clustered ${result.clusteredJobs} job(s) into ${result.clusters} group(s); updated ${result.updated} job(s)`
+    );
+  } finally {
+    await disconnectFilteredJobs();
+  }
+}
+
+main().catch(error => {
+  console.error('Failed to cluster duplicate jobs:', error);
+  process.exit(1);
+});
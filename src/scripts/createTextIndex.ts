@@ -0,0 +1,33 @@
+/**
+ * Create the keyword search text index on the filtered jobs collection
+ *
+ * Usage:
+ *   npm run create-text-index
+ *
+ * Keyword searches (the q parameter) need this index. The server creates it
+ * on startup; run this to create it without starting the server.
+ */
+import path from 'path';
+import dotenv from 'dotenv';
+
+// Load environment variables before the database config reads them
+dotenv.config({ path: path.resolve(__dirname, '../../.env') });
+
+import filteredJobService, { disconnectFilteredJobs } from '../models/FilteredJob';
+
+async function main(): Promise<void> {
+  try {
+    if (await filteredJobService.createTextIndex()) {
+      console.log('Text index is in place');
+    } else {
+      console.log('A text index with other options already exists; keeping it');
+    }
+  } finally {
+    await disconnectFilteredJobs();
+  }
+}
+
+main().catch(error => {
+  console.error('Failed to create the text index:', error);
+  process.exit(1);
+});
@@ -0,0 +1,56 @@
+/**
+ * Promote an existing user to a role (admin by default)
+ *
+ * Usage:
+ *   npm run promote-admin -- <email> [role]
+ *
+ * Used to bootstrap the first admin; later role changes can be made
+ * through PATCH /api/admin/users/:id/role.
+ */
+import path from 'path';
+import dotenv from 'dotenv';
+
+// Load environment variables before the database config reads them
+dotenv.config({ path: path.resolve(__dirname, '../../.env') });
+
+import { connectDatabase, disconnectDatabase } from '../config/database';
+import User, { USER_ROLES, UserRole } from '../models/User';
+
+async function main(): Promise<void> {
+  const [email, role = 'admin'] = process.argv.slice(2);
+
+  if (!email) {
+    console.error('Usage: npm run promote-admin -- <email> [role]');
+    process.exit(1);
+  }
+
+  if (!USER_ROLES.includes(role as UserRole)) {
+    console.error(`Invalid role "${role}". Allowed: ${USER_ROLES.join(', ')}`);
+    process.exit(1);
+  }
+
+  await connectDatabase();
+
+  try {
+    const user = await User.findOneAndUpdate(
+      { email: email.toLowerCase().trim() },
+      { role },
+      { new: true }
+    );
+
+    if (!user) {
+      console.error(`No user found with email ${email}`);
+      process.exitCode = 1;
+      return;
+    }
+
+    console.log(`User ${user.email} now has role "${user.role}"`);
+  } finally {
+    await disconnectDatabase();
+  }
+}
+
+main().catch(error => {
+  console.error('Failed to promote user:', error);
+  process.exit(1);
+});
@@ -0,0 +1,233 @@
+import User, { IUserResponse } from '../models/User';
+import ResumeAnalysis from '../models/ResumeAnalysis';
+import Session from '../models/Session';
+import RefreshToken from '../models/RefreshToken';
+import AuthAttempt from '../models/AuthAttempt';
+import AuthEvent, { IAuthEventResponse } from '../models/AuthEvent';
+import ApiKey, { IApiKeyResponse } from '../models/ApiKey';
+import SavedSearch, { ISavedSearchResponse } from '../models/SavedSearch';
+import AlertDelivery from '../models/AlertDelivery';
+import Bookmark, { IBookmarkResponse } from '../models/Bookmark';
+import Application, { IApplicationResponse } from '../models/Application';
+import JobBlock, { IJobBlockResponse } from '../models/JobBlock';
+import ResumeService from './ResumeService';
+import AuthService, { AuthError } from './AuthService';
+import { escapeRegExp } from '../utils/regex';
+
+/**
+ * Exported resume file
+ */
+export interface IExportedResume {
+  id: string;
+  fileName: string;
+  mimeType: string;
+  uploadDate: Date;
+  contentBase64: string;
+}
+
+/**
+ * Personal data export bundle
+ */
+export interface IAccountExport {
+  exportedAt: Date;
+  user: IUserResponse;
+  sessions: {
+    id: string;
+    userAgent?: string;
+    ip?: string;
+    createdAt: Date;
+    lastSeenAt: Date;
+    revokedAt?: Date;
+  }[];
+  resumes: IExportedResume[];
+  resumeAnalyses: unknown[];
+  authEvents: IAuthEventResponse[];
+  apiKeys: (IApiKeyResponse & { revokedAt?: Date })[];
+  savedSearches: ISavedSearchResponse[];
+  alertDeliveries: { savedSearchId: string; jobId: string; sentAt: Date }[];
+  bookmarks: IBookmarkResponse[];
+  applications: IApplicationResponse[];
+  jobBlocks: IJobBlockResponse[];
+}
+
+/**
+ * Deletion request result
+ */
+export interface IDeletionResult {
+  deleted: boolean; // True when the account was removed immediately
+  deletionScheduledFor?: Date;
+}
+
+/**
+ * Get the grace period before a requested deletion becomes permanent
+ */
+function getDeletionGracePeriod(): number {
+  const days = parseInt(process.env.ACCOUNT_DELETION_GRACE_DAYS || '14', 10);
+  return Math.max(0, days) * 24 * 60 * 60 * 1000;
+}
+
+/**
+ * Account Service
+ * Handles personal data export and account deletion
+ */
+export class AccountService {
+  /**
+   * Collect everything stored about a user
+   */
+  async exportUserData(userId: string): Promise<IAccountExport> {
+    const user = await User.findById(userId);
+
+    if (!user) {
+      throw new AuthError('User not found', 'USER_NOT_FOUND');
+    }
+
+    const [
+      sessions,
+      analyses,
+      resumeMetadata,
+      authEvents,
+      apiKeys,
+      savedSearches,
+      alertDeliveries,
+      bookmarks,
+      applications,
+      jobBlocks,
+    ] = await Promise.all([
+      Session.find({ userId }).sort({ createdAt: 1 }),
+      ResumeAnalysis.find({ userId }).sort({ analyzedAt: 1 }),
+      ResumeService.getResumesByUser(userId),
+      AuthEvent.find({ userId }).sort({ createdAt: 1 }),
+      ApiKey.find({ userId }).sort({ createdAt: 1 }),
+      SavedSearch.find({ userId }).sort({ createdAt: 1 }),
+      AlertDelivery.find({ userId }).sort({ sentAt: 1 }),
+      Bookmark.find({ userId }).sort({ createdAt: 1 }),
+      Application.find({ userId }).sort({ createdAt: 1 }),
+      JobBlock.find({ userId }).sort({ createdAt: 1 }),
+    ]);
+
+    const resumes: IExportedResume[] = [];
+    for (const resume of resumeMetadata) {
+      const content = await ResumeService.getResumeFile(resume.id);
+      resumes.push({
+        id: resume.id,
+        fileName: resume.fileName,
+        mimeType: resume.metadata.mimeType,
+        uploadDate: resume.uploadDate,
+        contentBase64: content.toString('base64'),
+      });
+    }
+
+    return {
+      exportedAt: new Date(),
+      user: user.toResponse(),
+      sessions: sessions.map(session => ({
+        ...session.toResponse(),
+        revokedAt: session.revokedAt,
+      })),
+      resumes,
+      resumeAnalyses: analyses.map(analysis => analysis.toResponse()),
+      authEvents: authEvents.map(event => event.toResponse()),
+      apiKeys: apiKeys.map(apiKey => ({
+        ...apiKey.toResponse(),
+        revokedAt: apiKey.revokedAt,
+      })),
+      savedSearches: savedSearches.map(search => search.toResponse()),
+      alertDeliveries: alertDeliveries.map(delivery => ({
+        savedSearchId: delivery.savedSearchId.toString(),
+        jobId: delivery.jobId,
+        sentAt: delivery.sentAt,
+      })),
+      bookmarks: bookmarks.map(bookmark => bookmark.toResponse()),
+      applications: applications.map(application => application.toResponse()),
+      jobBlocks: jobBlocks.map(block => block.toResponse()),
+    };
+  }
+
+  /**
+   * Request account deletion (requires password re-entry)
+   * The account is signed out everywhere and permanently deleted once the
+   * grace period ends; logging in again before then cancels the deletion
+   */
+  async requestDeletion(userId: string, password: string): Promise<IDeletionResult> {
+    const user = await User.findById(userId).select('+passwordHash');
+
+    if (!user) {
+      throw new AuthError('User not found', 'USER_NOT_FOUND');
+    }
+
+    const isPasswordValid = await user.comparePassword(password);
+
+    if (!isPasswordValid) {
+      throw new AuthError('Invalid password', 'INVALID_CREDENTIALS');
+    }
+
+    const gracePeriod = getDeletionGracePeriod();
+
+    if (gracePeriod === 0) {
+      await this.purgeUser(userId);
+      return { deleted: true };
+    }
+
+    const deletionScheduledFor = new Date(Date.now() + gracePeriod);
+    await User.updateOne({ _id: user._id }, { deletionScheduledFor });
+    await AuthService.revokeAllSessions(userId);
+
+    return { deleted: false, deletionScheduledFor };
+  }
+
+  /**
+   * Permanently delete a user and all data they own
+   */
+  async purgeUser(userId: string): Promise<void> {
+    const user = await User.findById(userId);
+
+    if (!user) {
+      return;
+    }
+
+    // Resume files first, so a failure leaves the user record to retry from
+    await ResumeService.deleteResumesByUser(userId);
+
+    await Promise.all([
+      ResumeAnalysis.deleteMany({ userId }),
+      Session.deleteMany({ userId }),
+      RefreshToken.deleteMany({ userId }),
+      AuthEvent.deleteMany({ userId }),
+      ApiKey.deleteMany({ userId }),
+      SavedSearch.deleteMany({ userId }),
+      AlertDelivery.deleteMany({ userId }),
+      Bookmark.deleteMany({ userId }),
+      Application.deleteMany({ userId }),
+      JobBlock.deleteMany({ userId }),
+      // Attempt counters are keyed by email, or by user id for two-factor logins
+      AuthAttempt.deleteMany({
+        key: new RegExp(`:account:(${escapeRegExp(user.email)}|${userId})$`),
+      }),
+    ]);
+
+    await User.deleteOne({ _id: user._id });
+  }
+
+  /**
+   * Permanently delete all accounts whose grace period has ended
+   * Returns the number of accounts deleted
+   */
+  async purgeDueDeletions(): Promise<number> {
+    const users = await User.find({ deletionScheduledFor: { $lte: new Date() } }).select('_id');
+
+    let purged = 0;
+    for (const user of users) {
+      try {
+        await this.purgeUser(user._id.toString());
+        purged++;
+      } catch (error) {
+        console.error(`Failed to delete account ${user._id}:`, error);
+      }
+    }
+
+    return purged;
+  }
+}
+
+// Export singleton instance
+export default new AccountService();
@@ -0,0 +1,129 @@
+import mongoose from 'mongoose';
+import ApiKey, { ApiKeyScope, IApiKey, IApiKeyResponse } from '../models/ApiKey';
+import User, { IUser } from '../models/User';
+import { generateSecureToken, hashToken } from '../utils/crypto';
+import { ServiceError } from '../utils/errors';
+import { AuthError } from './AuthService';
+
+/**
+ * Prefix identifying our API keys (helps secret scanners and support)
+ */
+const API_KEY_PREFIX = 'jsk_';
+
+/**
+ * Maximum number of active keys per user
+ */
+const MAX_ACTIVE_KEYS = 10;
+
+/**
+ * Minimum interval between last-used updates
+ */
+const LAST_USED_UPDATE_INTERVAL = 60 * 1000;
+
+/**
+ * Newly created key; the plain key is only ever returned here
+ */
+export interface IApiKeyCreated {
+  apiKey: IApiKeyResponse;
+  key: string;
+}
+
+/**
+ * Owner and key resolved from a presented API key
+ */
+export interface IApiKeyPrincipal {
+  user: IUser;
+  apiKey: IApiKey;
+}
+
+/**
+ * API Key Service
+ * Manages personal API keys for scripted access
+ */
+export class ApiKeyService {
+  /**
+   * Create a key with a name and scopes
+   */
+  async createKey(userId: string, name: string, scopes: ApiKeyScope[]): Promise<IApiKeyCreated> {
+    const activeKeys = await ApiKey.countDocuments({ userId, revokedAt: { $exists: false } });
+
+    if (activeKeys >= MAX_ACTIVE_KEYS) {
+      throw new ServiceError(
+        `You can have at most ${MAX_ACTIVE_KEYS} active API keys`,
+        'API_KEY_LIMIT_REACHED',
+        409
+      );
+    }
+
+    const key = `${API_KEY_PREFIX}${generateSecureToken(24)}`;
+
+    const apiKey = await ApiKey.create({
+      userId,
+      name,
+      prefix: key.slice(0, API_KEY_PREFIX.length + 8),
+      keyHash: hashToken(key),
+      scopes: [...new Set(scopes)],
+    });
+
+    return { apiKey: apiKey.toResponse(), key };
+  }
+
+  /**
+   * List a user's active keys
+   */
+  async listKeys(userId: string): Promise<IApiKeyResponse[]> {
+    const keys = await ApiKey.find({ userId, revokedAt: { $exists: false } }).sort({
+      createdAt: -1,
+    });
+
+    return keys.map(key => key.toResponse());
+  }
+
+  /**
+   * Revoke one of the user's keys
+   */
+  async revokeKey(userId: string, keyId: string): Promise<void> {
+    if (!mongoose.Types.ObjectId.isValid(keyId)) {
+      throw new AuthError('API key not found', 'API_KEY_NOT_FOUND');
+    }
+
+    const result = await ApiKey.updateOne(
+      { _id: keyId, userId, revokedAt: { $exists: false } },
+      { revokedAt: new Date() }
+    );
+
+    if (result.modifiedCount === 0) {
+      throw new AuthError('API key not found', 'API_KEY_NOT_FOUND');
+    }
+  }
+
+  /**
+   * Resolve a presented key to its owner
+   * Returns null for unknown or revoked keys, and for accounts pending deletion
+   */
+  async resolveKey(key: string): Promise<IApiKeyPrincipal | null> {
+    if (!key.startsWith(API_KEY_PREFIX)) {
+      return null;
+    }
+
+    const apiKey = await ApiKey.findOne({ keyHash: hashToken(key) });
+    if (!apiKey || apiKey.revokedAt) {
+      return null;
+    }
+
+    const user = await User.findById(apiKey.userId);
+    if (!user || user.deletionScheduledFor) {
+      return null;
+    }
+
+    const lastUsedAt = apiKey.lastUsedAt?.getTime() ?? 0;
+    if (Date.now() - lastUsedAt > LAST_USED_UPDATE_INTERVAL) {
+      await ApiKey.updateOne({ _id: apiKey._id }, { lastUsedAt: new Date() });
+    }
+
+    return { user, apiKey };
+  }
+}
+
+// Export singleton instance
+export default new ApiKeyService();
@@ -0,0 +1,261 @@
+import mongoose from 'mongoose';
+import Application, {
+  APPLICATION_STATUSES,
+  ApplicationStatus,
+  IApplicationContact,
+  IApplicationJob,
+  IApplicationResponse,
+} from '../models/Application';
+import { snapshotJob } from '../models/Bookmark';
+import filteredJobService from '../models/FilteredJob';
+import { ServiceError, isDuplicateKeyError } from '../utils/errors';
+
+/**
+ * Maximum number of tracked applications per user
+ */
+const MAX_APPLICATIONS = 1000;
+
+/**
+ * Manually entered job that is not in the listings
+ */
+export interface IExternalJobInput {
+  title: string;
+  company: string;
+  location?: string;
+  applyLink?: string;
+}
+
+/**
+ * Application details a user can set
+ * Nullable fields are cleared with null
+ */
+export interface IApplicationDetails {
+  status?: ApplicationStatus;
+  notes?: string | null;
+  contacts?: IApplicationContact[];
+  nextAction?: string | null;
+  nextActionDate?: Date | null;
+}
+
+/**
+ * New application: either a listed job or an external one
+ */
+export interface IApplicationInput extends IApplicationDetails {
+  jobId?: string;
+  job?: IExternalJobInput;
+}
+
+/**
+ * Paginated application list
+ */
+export interface IApplicationList {
+  applications: IApplicationResponse[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+/**
+ * Application counts per status
+ */
+export interface IApplicationSummary {
+  counts: Record<ApplicationStatus, number>;
+  total: number;
+}
+
+/**
+ * Application Service
+ * Tracks users' job applications through the hiring pipeline
+ */
+export class ApplicationService {
+  /**
+   * Start tracking an application
+   * Returns null when the listed job does not exist
+   */
+  async createApplication(
+    userId: string,
+    input: IApplicationInput
+  ): Promise<IApplicationResponse | null> {
+    let jobId: string | undefined;
+    let job: IApplicationJob;
+    if (input.jobId) {
+      const listed = await filteredJobService.getJobById(input.jobId);
+      if (!listed) {
+        return null;
+      }
+      jobId = listed._id.toString();
+      job = snapshotJob(listed);
+    } else {
+      job = this.externalJob(input.job as IExternalJobInput);
+    }
+
+    const count = await Application.countDocuments({ userId });
+    if (count >= MAX_APPLICATIONS) {
+      throw new ServiceError(
+        `You can track at most ${MAX_APPLICATIONS} applications`,
+        'APPLICATION_LIMIT_REACHED',
+        409
+      );
+    }
+
+    const status = input.status || 'saved';
+
+    try {
+      const application = await Application.create({
+        userId,
+        jobId,
+        job,
+        status,
+        statusHistory: [{ status, changedAt: new Date() }],
+        notes: input.notes ?? undefined,
+        contacts: input.contacts || [],
+        nextAction: input.nextAction ?? undefined,
+        nextActionDate: input.nextActionDate ?? undefined,
+      });
+
+      return application.toResponse();
+    } catch (error) {
+      // Unique index violation: the job is already tracked
+      if (isDuplicateKeyError(error)) {
+        throw new ServiceError('You are already tracking this job', 'APPLICATION_EXISTS', 409);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * List a user's applications, most recently updated first
+   */
+  async listApplications(
+    userId: string,
+    options: { status?: ApplicationStatus[]; page?: number; limit?: number } = {}
+  ): Promise<IApplicationList> {
+    const page = Math.max(1, options.page || 1);
+    const limit = Math.min(100, Math.max(1, options.limit || 20));
+
+    const filter = {
+      userId,
+      ...(options.status && { status: { $in: options.status } }),
+    };
+
+    const [applications, total] = await Promise.all([
+      Application.find(filter)
+        .sort({ updatedAt: -1, _id: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      Application.countDocuments(filter),
+    ]);
+
+    return {
+      applications: applications.map(application => application.toResponse()),
+      total,
+      page,
+      limit,
+    };
+  }
+
+  /**
+   * Count a user's applications per status (every status is included)
+   */
+  async getSummary(userId: string): Promise<IApplicationSummary> {
+    const groups = await Application.aggregate<{ _id: ApplicationStatus; count: number }>([
+      { $match: { userId: new mongoose.Types.ObjectId(userId) } },
+      { $group: { _id: '$status', count: { $sum: 1 } } },
+    ]);
+
+    const counts = Object.fromEntries(APPLICATION_STATUSES.map(status => [status, 0])) as Record<
+      ApplicationStatus,
+      number
+    >;
+    let total = 0;
+    for (const group of groups) {
+      counts[group._id] = group.count;
+      total += group.count;
+    }
+
+    return { counts, total };
+  }
+
+  /**
+   * Get one of the user's applications
+   * Returns null when it does not exist or belongs to someone else
+   */
+  async getApplication(userId: string, applicationId: string): Promise<IApplicationResponse | null> {
+    if (!mongoose.Types.ObjectId.isValid(applicationId)) {
+      return null;
+    }
+
+    const application = await Application.findOne({ _id: applicationId, userId });
+
+    return application ? application.toResponse() : null;
+  }
+
+  /**
+   * Update an application
+   * A status change is appended to the status history
+   */
+  async updateApplication(
+    userId: string,
+    applicationId: string,
+    update: IApplicationDetails
+  ): Promise<IApplicationResponse | null> {
+    if (!mongoose.Types.ObjectId.isValid(applicationId)) {
+      return null;
+    }
+
+    const application = await Application.findOne({ _id: applicationId, userId });
+    if (!application) {
+      return null;
+    }
+
+    if (update.status && update.status !== application.status) {
+      application.status = update.status;
+      application.statusHistory.push({ status: update.status, changedAt: new Date() });
+    }
+    if (update.notes !== undefined) {
+      application.notes = update.notes ?? undefined;
+    }
+    if (update.contacts !== undefined) {
+      application.contacts = update.contacts;
+    }
+    if (update.nextAction !== undefined) {
+      application.nextAction = update.nextAction ?? undefined;
+    }
+    if (update.nextActionDate !== undefined) {
+      application.nextActionDate = update.nextActionDate ?? undefined;
+    }
+
+    await application.save();
+
+    return application.toResponse();
+  }
+
+  /**
+   * Stop tracking an application
+   * Returns false when it does not exist or belongs to someone else
+   */
+  async deleteApplication(userId: string, applicationId: string): Promise<boolean> {
+    if (!mongoose.Types.ObjectId.isValid(applicationId)) {
+      return false;
+    }
+
+    const result = await Application.deleteOne({ _id: applicationId, userId });
+
+    return result.deletedCount > 0;
+  }
+
+  /**
+   * Convert a manually entered job to the stored job fields
+   */
+  private externalJob(input: IExternalJobInput): IApplicationJob {
+    return {
+      job_title: input.title,
+      company_name_normalized: input.company,
+      ...(input.location && { job_location: input.location }),
+      ...(input.applyLink && { apply_link: input.applyLink }),
+    };
+  }
+}
+
+// Export singleton instance
+export default new ApplicationService();
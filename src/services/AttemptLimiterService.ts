@@ -0,0 +1,161 @@
+import AuthAttempt from '../models/AuthAttempt';
+
+/**
+ * Subject an attempt counter is kept for
+ */
+export type AttemptScope = 'account' | 'ip';
+
+/**
+ * Limits applied to a scope
+ */
+interface AttemptPolicy {
+  delayAfter: number; // Failures before progressive delays start
+  lockAfter: number; // Failures before a temporary lockout
+  lockDurationMs: number;
+}
+
+/**
+ * Subject to check or record attempts for
+ */
+export interface IAttemptSubject {
+  scope: AttemptScope;
+  key: string;
+}
+
+/**
+ * Result of checking whether another attempt is allowed
+ */
+export interface IAttemptCheck {
+  allowed: boolean;
+  reason?: 'locked' | 'delayed';
+  scope?: AttemptScope;
+  retryAfter?: number; // Seconds
+}
+
+const POLICIES: Record<AttemptScope, AttemptPolicy> = {
+  account: { delayAfter: 3, lockAfter: 10, lockDurationMs: 15 * 60 * 1000 },
+  ip: { delayAfter: 10, lockAfter: 50, lockDurationMs: 15 * 60 * 1000 },
+};
+
+/**
+ * Failures are forgotten this long after the last one
+ */
+const ATTEMPT_WINDOW_MS = 60 * 60 * 1000;
+
+/**
+ * Upper bound for the progressive delay between attempts
+ */
+const MAX_DELAY_MS = 30 * 1000;
+
+/**
+ * Attempt Limiter Service
+ * Tracks failed authentication attempts per account and per IP, enforcing
+ * progressive delays and temporary lockouts
+ */
+export class AttemptLimiterService {
+  /**
+   * Build the subjects for an action (account key is always included, IP when known)
+   */
+  subjects(action: string, account: string, ip?: string): IAttemptSubject[] {
+    const subjects: IAttemptSubject[] = [
+      { scope: 'account', key: `${action}:account:${account.toLowerCase()}` },
+    ];
+    if (ip) {
+      subjects.push({ scope: 'ip', key: `${action}:ip:${ip}` });
+    }
+    return subjects;
+  }
+
+  /**
+   * Check whether another attempt is currently allowed for all subjects
+   */
+  async check(subjects: IAttemptSubject[]): Promise<IAttemptCheck> {
+    const attempts = await AuthAttempt.find({ key: { $in: subjects.map(s => s.key) } });
+    const now = Date.now();
+
+    for (const subject of subjects) {
+      const attempt = attempts.find(a => a.key === subject.key);
+      if (!attempt) {
+        continue;
+      }
+
+      if (attempt.lockedUntil && attempt.lockedUntil.getTime() > now) {
+        return {
+          allowed: false,
+          reason: 'locked',
+          scope: subject.scope,
+          retryAfter: Math.ceil((attempt.lockedUntil.getTime() - now) / 1000),
+        };
+      }
+
+      const policy = POLICIES[subject.scope];
+      if (attempt.failures >= policy.delayAfter) {
+        const delay = Math.min(2 ** (attempt.failures - policy.delayAfter) * 1000, MAX_DELAY_MS);
+        const nextAllowedAt = attempt.lastFailureAt.getTime() + delay;
+        if (nextAllowedAt > now) {
+          return {
+            allowed: false,
+            reason: 'delayed',
+            scope: subject.scope,
+            retryAfter: Math.ceil((nextAllowedAt - now) / 1000),
+          };
+        }
+      }
+    }
+
+    return { allowed: true };
+  }
+
+  /**
+   * Record a failed attempt for all subjects, locking those over the limit
+   */
+  async recordFailure(subjects: IAttemptSubject[]): Promise<void> {
+    const now = new Date();
+
+    await Promise.all(
+      subjects.map(async subject => {
+        const attempt = await AuthAttempt.findOneAndUpdate(
+          { key: subject.key },
+          {
+            $inc: { failures: 1 },
+            $set: {
+              lastFailureAt: now,
+              expiresAt: new Date(now.getTime() + ATTEMPT_WINDOW_MS),
+            },
+          },
+          { upsert: true, new: true }
+        );
+
+        const policy = POLICIES[subject.scope];
+        if (attempt && attempt.failures >= policy.lockAfter) {
+          // Lock and start counting again once the lockout ends
+          const lockedUntil = new Date(now.getTime() + policy.lockDurationMs);
+          await AuthAttempt.updateOne(
+            { key: subject.key },
+            {
+              $set: {
+                failures: 0,
+                lockedUntil,
+                expiresAt: new Date(lockedUntil.getTime() + ATTEMPT_WINDOW_MS),
+              },
+            }
+          );
+        }
+      })
+    );
+  }
+
+  /**
+   * Clear counters after a successful attempt
+   * Only account subjects are cleared so one valid login cannot reset an IP's counter
+   */
+  async reset(subjects: IAttemptSubject[]): Promise<void> {
+    const keys = subjects.filter(s => s.scope === 'account').map(s => s.key);
+    if (keys.length > 0) {
+      await AuthAttempt.deleteMany({ key: { $in: keys } });
+    }
+  }
+}
+
+// Export singleton instance
+export default new AttemptLimiterService();
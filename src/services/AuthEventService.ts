@@ -0,0 +1,134 @@
+import mongoose from 'mongoose';
+import AuthEvent, {
+  AuthEventOutcome,
+  AuthEventType,
+  IAuthEventResponse,
+} from '../models/AuthEvent';
+import User from '../models/User';
+
+/**
+ * Event to record
+ */
+export interface IAuthEventInput {
+  type: AuthEventType;
+  outcome: AuthEventOutcome;
+  reason?: string;
+  userId?: string | mongoose.Types.ObjectId;
+  email?: string;
+  ip?: string;
+  userAgent?: string;
+}
+
+/**
+ * Admin query filters
+ */
+export interface IAuthEventQuery {
+  userId?: string;
+  type?: AuthEventType;
+  outcome?: AuthEventOutcome;
+  from?: Date;
+  to?: Date;
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * Paginated auth event list
+ */
+export interface IAuthEventList {
+  events: IAuthEventResponse[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+/**
+ * Get how long auth events are kept
+ */
+function getRetentionPeriod(): number {
+  const days = parseInt(process.env.AUTH_EVENT_RETENTION_DAYS || '90', 10);
+  return Math.max(1, days) * 24 * 60 * 60 * 1000;
+}
+
+/**
+ * Auth Event Service
+ * Writes and queries the authentication audit log
+ */
+export class AuthEventService {
+  /**
+   * Append an event to the audit log
+   * Never throws: a logging failure must not break authentication
+   */
+  async record(event: IAuthEventInput): Promise<void> {
+    try {
+      let userId = event.userId;
+
+      // Attribute failures against a known account (e.g. a wrong password) to its owner
+      if (!userId && event.email) {
+        const user = await User.findOne({ email: event.email }).select('_id');
+        userId = user?._id;
+      }
+
+      await AuthEvent.create({
+        ...event,
+        userId,
+        expiresAt: new Date(Date.now() + getRetentionPeriod()),
+      });
+    } catch (error) {
+      console.error(`Failed to record auth event ${event.type}:`, error);
+    }
+  }
+
+  /**
+   * List a user's own events, newest first
+   */
+  async listForUser(
+    userId: string,
+    options: { page?: number; limit?: number } = {}
+  ): Promise<IAuthEventList> {
+    return this.query({ ...options, userId });
+  }
+
+  /**
+   * Query events by user, type, outcome and date range, newest first
+   */
+  async query(options: IAuthEventQuery = {}): Promise<IAuthEventList> {
+    const page = Math.max(1, options.page || 1);
+    const limit = Math.min(100, Math.max(1, options.limit || 20));
+
+    const filter: Record<string, unknown> = {};
+    if (options.userId) {
+      filter.userId = options.userId;
+    }
+    if (options.type) {
+      filter.type = options.type;
+    }
+    if (options.outcome) {
+      filter.outcome = options.outcome;
+    }
+    if (options.from || options.to) {
+      filter.createdAt = {
+        ...(options.from && { $gte: options.from }),
+        ...(options.to && { $lte: options.to }),
+      };
+    }
+
+    const [events, total] = await Promise.all([
+      AuthEvent.find(filter)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      AuthEvent.countDocuments(filter),
+    ]);
+
+    return {
+      events: events.map(event => event.toResponse()),
+      total,
+      page,
+      limit,
+    };
+  }
+}
+
+// Export singleton instance
+export default new AuthEventService();
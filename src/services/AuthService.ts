@@ -1,5 +1,59 @@
-import User, { IUserResponse } from '../models/User';
-import { generateToken, IJWTPayload } from '../utils/jwt';
+import mongoose from 'mongoose';
+import User, {
+  IUser,
+  IUserProfile,
+  IUserResponse,
+  ONE_TIME_CODE_FIELDS,
+  ONE_TIME_CODE_TTL,
+  OneTimeCodeType,
+  UserRole,
+} from '../models/User';
+import RefreshToken from '../models/RefreshToken';
+import Session, { ISessionResponse } from '../models/Session';
+import { AuthEventType } from '../models/AuthEvent';
+import {
+  generateChallengeToken,
+  generateToken,
+  getRefreshTokenTTL,
+  IJWTPayload,
+  verifyChallengeToken,
+} from '../utils/jwt';
+import { generateSecureToken, hashToken } from '../utils/crypto';
+import { isDuplicateKeyError } from '../utils/errors';
+import { base32Encode, buildOtpauthUri, generateTotpSecret, verifyTotp } from '../utils/totp';
+import crypto from 'crypto';
+import AttemptLimiter, { IAttemptSubject } from './AttemptLimiterService';
+import AuthEventService from './AuthEventService';
+
+/**
+ * Wrong guesses allowed before a verification code is invalidated
+ */
+const MAX_CODE_ATTEMPTS = 5;
+
+/**
+ * Minimum time between two passwordless login codes for the same account
+ */
+const LOGIN_CODE_RESEND_INTERVAL = 60 * 1000;
+
+/**
+ * Number of two-factor recovery codes issued on enrollment
+ */
+const RECOVERY_CODE_COUNT = 10;
+
+/**
+ * Generate a recovery code such as "k3j9d-x8w2q"
+ */
+function generateRecoveryCode(): string {
+  const raw = base32Encode(crypto.randomBytes(7)).slice(0, 10).toLowerCase();
+  return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+}
+
+/**
+ * Hash a recovery code, ignoring case, spaces and dashes in user input
+ */
+function hashRecoveryCode(code: string): string {
+  return hashToken(code.toLowerCase().replace(/[\s-]/g, ''));
+}
 
 /**
  * Registration result interface
@@ -15,6 +69,72 @@ export interface IRegistrationResult {
 export interface ILoginResult {
   user: IUserResponse;
   token: string;
+  refreshToken: string;
+}
+
+/**
+ * Login result when a second factor is required
+ */
+export interface ITwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+}
+
+/**
+ * Second factor presented by the user: a TOTP code or a recovery code
+ */
+export interface ISecondFactor {
+  code?: string;
+  recoveryCode?: string;
+}
+
+/**
+ * Two-factor enrollment details
+ */
+export interface ITwoFactorSetup {
+  secret: string;
+  otpauthUri: string;
+}
+
+/**
+ * Editable profile fields (null clears a field)
+ */
+export type IProfileUpdate = {
+  [K in 'name' | 'visaType' | 'visaExpiry' | 'linkedInUrl' | 'preferredLocation']?:
+    | IUserProfile[K]
+    | null;
+};
+
+/**
+ * Email change request result
+ */
+export interface IEmailChangeRequest {
+  newEmail: string;
+  code: string;
+}
+
+/**
+ * Email change confirmation result
+ */
+export interface IEmailChangeResult {
+  user: IUserResponse;
+  previousEmail: string;
+}
+
+/**
+ * Client information recorded with a session
+ */
+export interface IRequestContext {
+  ip?: string;
+  userAgent?: string;
+}
+
+/**
+ * Token pair issued on login and refresh
+ */
+export interface ITokenPair {
+  token: string;
+  refreshToken: string;
 }
 
 /**
@@ -30,7 +150,8 @@ export interface IVerificationResult {
 export class AuthError extends Error {
   constructor(
     message: string,
-    public code: string
+    public code: string,
+    public retryAfter?: number // Seconds until the action may be retried
   ) {
     super(message);
     this.name = 'AuthError';
@@ -47,103 +168,709 @@ export class AuthService {
    */
   async register(
     email: string,
-    password: string
+    password: string,
+    context: IRequestContext = {}
   ): Promise<IRegistrationResult> {
-    // Check if user already exists
-    const existingUser = await User.findOne({ email });
-    if (existingUser) {
-      throw new AuthError('User with this email already exists', 'EMAIL_ALREADY_EXISTS');
+    return this.audited({ type: 'register', email }, context, async () => {
+      // Check if user already exists
+      const existingUser = await User.findOne({ email });
+      if (existingUser) {
+        throw new AuthError('User with this email already exists', 'EMAIL_ALREADY_EXISTS');
+      }
+
+      // Create new user (password will be hashed by pre-save hook)
+      const user = new User({
+        email,
+        passwordHash: password, // Will be hashed by pre-save hook
+        emailVerified: false,
+        profile: {},
+      });
+
+      // Generate verification code
+      const verificationCode = user.generateVerificationCode();
+
+      await user.save();
+
+      return {
+        user: user.toResponse(),
+        verificationCode,
+      };
+    });
+  }
+
+  /**
+   * Verify email with code
+   */
+  async verifyEmail(
+    email: string,
+    code: string,
+    context: IRequestContext = {}
+  ): Promise<IVerificationResult> {
+    return this.audited({ type: 'verify_email', email }, context, async () => {
+      const subjects = AttemptLimiter.subjects('verify', email, context.ip);
+      await this.assertAttemptAllowed(subjects);
+
+      // Find user with verification code (select the hidden fields)
+      const user = await User.findOne({
+        email,
+      }).select('+verificationCode +verificationCodeExpires +verificationAttempts');
+
+      if (!user) {
+        await AttemptLimiter.recordFailure(subjects);
+        throw new AuthError('User not found', 'USER_NOT_FOUND');
+      }
+
+      // Check if code has been invalidated by too many wrong guesses
+      if ((user.verificationAttempts ?? 0) >= MAX_CODE_ATTEMPTS) {
+        throw new AuthError(
+          'Too many incorrect attempts. Please request a new code',
+          'CODE_ATTEMPTS_EXCEEDED'
+        );
+      }
+
+      // Check if code exists and matches
+      if (!user.matchesOneTimeCode('verification', code)) {
+        await AttemptLimiter.recordFailure(subjects);
+        await this.recordWrongCode(user._id, 'verification');
+        throw new AuthError('Invalid verification code', 'INVALID_CODE');
+      }
+
+      // Check if code has expired
+      if (!user.verificationCodeExpires || user.verificationCodeExpires < new Date()) {
+        throw new AuthError('Verification code has expired', 'CODE_EXPIRED');
+      }
+
+      // Mark email as verified and clear verification code
+      user.emailVerified = true;
+      user.verificationCode = undefined;
+      user.verificationCodeExpires = undefined;
+      user.verificationAttempts = undefined;
+
+      await user.save();
+      await AttemptLimiter.reset(subjects);
+
+      return {
+        user: user.toResponse(),
+      };
+    });
+  }
+
+  /**
+   * Count a wrong one-time code guess, invalidating the code once the
+   * limit is reached (the count is kept until a new code is generated)
+   */
+  private async recordWrongCode(
+    userId: mongoose.Types.ObjectId,
+    type: OneTimeCodeType
+  ): Promise<void> {
+    const fields = ONE_TIME_CODE_FIELDS[type];
+
+    const updated = await User.findOneAndUpdate(
+      { _id: userId, [fields.code]: { $exists: true } },
+      { $inc: { [fields.attempts]: 1 } },
+      { new: true }
+    ).select(`+${fields.attempts}`);
+
+    if (updated && (updated.get(fields.attempts) ?? 0) >= MAX_CODE_ATTEMPTS) {
+      await User.updateOne(
+        { _id: userId },
+        { $unset: { [fields.code]: '', [fields.expires]: '' } }
+      );
     }
+  }
+
+  /**
+   * Run an email-identified auth operation and record its outcome in the audit log
+   * Only AuthErrors are logged as failures; unexpected errors propagate unrecorded
+   */
+  private async audited<T>(
+    event: { type: AuthEventType; email: string },
+    context: IRequestContext,
+    operation: () => Promise<T>
+  ): Promise<T> {
+    try {
+      const result = await operation();
+      await AuthEventService.record({ ...event, ...context, outcome: 'success' });
+      return result;
+    } catch (error) {
+      if (error instanceof AuthError) {
+        await AuthEventService.record({
+          ...event,
+          ...context,
+          outcome: 'failure',
+          reason: error.code,
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Throw if the attempt limiter currently blocks the subjects
+   */
+  private async assertAttemptAllowed(subjects: IAttemptSubject[]): Promise<void> {
+    const result = await AttemptLimiter.check(subjects);
+
+    if (result.allowed) {
+      return;
+    }
+
+    if (result.reason === 'locked' && result.scope === 'account') {
+      throw new AuthError(
+        'Too many failed attempts. This account is temporarily locked',
+        'ACCOUNT_LOCKED',
+        result.retryAfter
+      );
+    }
+
+    throw new AuthError(
+      'Too many attempts. Please try again later',
+      'TOO_MANY_ATTEMPTS',
+      result.retryAfter
+    );
+  }
 
-    // Create new user (password will be hashed by pre-save hook)
-    const user = new User({
-      email,
-      passwordHash: password, // Will be hashed by pre-save hook
-      emailVerified: false,
-      profile: {},
+  /**
+   * Login user
+   */
+  async login(
+    email: string,
+    password: string,
+    context: IRequestContext = {}
+  ): Promise<ILoginResult | ITwoFactorChallenge> {
+    return this.audited({ type: 'login', email }, context, async () => {
+      const subjects = AttemptLimiter.subjects('login', email, context.ip);
+      await this.assertAttemptAllowed(subjects);
+
+      // Find user with password hash
+      const user = await User.findOne({ email }).select('+passwordHash');
+
+      if (!user) {
+        await AttemptLimiter.recordFailure(subjects);
+        throw new AuthError('Invalid email or password', 'INVALID_CREDENTIALS');
+      }
+
+      // Check if email is verified
+      if (!user.emailVerified) {
+        throw new AuthError('Please verify your email before logging in', 'EMAIL_NOT_VERIFIED');
+      }
+
+      // Compare password
+      const isPasswordValid = await user.comparePassword(password);
+
+      if (!isPasswordValid) {
+        await AttemptLimiter.recordFailure(subjects);
+        throw new AuthError('Invalid email or password', 'INVALID_CREDENTIALS');
+      }
+
+      await AttemptLimiter.reset(subjects);
+
+      return this.completeFirstFactor(user, context);
     });
+  }
 
-    // Generate verification code
-    const verificationCode = user.generateVerificationCode();
+  /**
+   * Issue a passwordless login code
+   * Returns null (and sends nothing) for unknown or unverified accounts, and
+   * when a code was issued too recently, so responses do not reveal either
+   */
+  async requestLoginCode(email: string, context: IRequestContext = {}): Promise<string | null> {
+    const user = await User.findOne({ email }).select('+loginCodeExpires');
+
+    if (!user || !user.emailVerified) {
+      return null;
+    }
+
+    if (user.loginCodeExpires) {
+      const issuedAt = user.loginCodeExpires.getTime() - ONE_TIME_CODE_TTL;
+      if (Date.now() - issuedAt < LOGIN_CODE_RESEND_INTERVAL) {
+        return null;
+      }
+    }
 
+    const code = user.generateLoginCode();
     await user.save();
+    await AuthEventService.record({
+      type: 'login_code_request',
+      outcome: 'success',
+      userId: user._id,
+      ...context,
+    });
+
+    return code;
+  }
+
+  /**
+   * Exchange a passwordless login code for the normal login result
+   */
+  async verifyLoginCode(
+    email: string,
+    code: string,
+    context: IRequestContext = {}
+  ): Promise<ILoginResult | ITwoFactorChallenge> {
+    return this.audited({ type: 'login_code', email }, context, async () => {
+      const subjects = AttemptLimiter.subjects('login-code', email, context.ip);
+      await this.assertAttemptAllowed(subjects);
+
+      const user = await User.findOne({ email }).select(
+        '+loginCode +loginCodeExpires +loginCodeAttempts'
+      );
+
+      if (!user || !user.emailVerified) {
+        await AttemptLimiter.recordFailure(subjects);
+        throw new AuthError('Invalid login code', 'INVALID_CODE');
+      }
+
+      if ((user.loginCodeAttempts ?? 0) >= MAX_CODE_ATTEMPTS) {
+        throw new AuthError(
+          'Too many incorrect attempts. Please request a new code',
+          'CODE_ATTEMPTS_EXCEEDED'
+        );
+      }
+
+      if (!user.matchesOneTimeCode('login', code)) {
+        await AttemptLimiter.recordFailure(subjects);
+        await this.recordWrongCode(user._id, 'login');
+        throw new AuthError('Invalid login code', 'INVALID_CODE');
+      }
+
+      if (!user.loginCodeExpires || user.loginCodeExpires < new Date()) {
+        throw new AuthError('Login code has expired', 'CODE_EXPIRED');
+      }
+
+      // Consume atomically so a code can only be used once, even by concurrent requests
+      const consumed = await User.findOneAndUpdate(
+        { _id: user._id, loginCode: user.loginCode },
+        { $unset: { loginCode: '', loginCodeExpires: '', loginCodeAttempts: '' } }
+      );
+
+      if (!consumed) {
+        throw new AuthError('Invalid login code', 'INVALID_CODE');
+      }
+
+      await AttemptLimiter.reset(subjects);
+
+      return this.completeFirstFactor(user, context);
+    });
+  }
+
+  /**
+   * Finish a login once the first factor (password or email code) is verified
+   * Accounts with two-factor authentication get a challenge instead of tokens
+   */
+  private async completeFirstFactor(
+    user: IUser,
+    context: IRequestContext
+  ): Promise<ILoginResult | ITwoFactorChallenge> {
+    if (user.twoFactorEnabled) {
+      return {
+        twoFactorRequired: true,
+        challengeToken: generateChallengeToken(user._id.toString()),
+      };
+    }
+
+    return this.startSession(user, context);
+  }
+
+  /**
+   * Complete a two-factor login with a TOTP or recovery code
+   */
+  async completeTwoFactorLogin(
+    challengeToken: string,
+    factor: ISecondFactor,
+    context: IRequestContext = {}
+  ): Promise<ILoginResult> {
+    let userId: string;
+    try {
+      userId = verifyChallengeToken(challengeToken).userId;
+    } catch {
+      throw new AuthError('Invalid or expired login challenge', 'INVALID_CHALLENGE');
+    }
+
+    const subjects = AttemptLimiter.subjects('2fa', userId, context.ip);
+    await this.assertAttemptAllowed(subjects);
+
+    const user = await User.findById(userId).select('+twoFactorSecret');
+
+    if (!user || !user.twoFactorEnabled) {
+      throw new AuthError('Invalid or expired login challenge', 'INVALID_CHALLENGE');
+    }
+
+    if (!(await this.verifySecondFactor(user, factor))) {
+      await AttemptLimiter.recordFailure(subjects);
+      await AuthEventService.record({
+        type: 'two_factor',
+        outcome: 'failure',
+        reason: 'INVALID_2FA_CODE',
+        userId: user._id,
+        ...context,
+      });
+      throw new AuthError('Invalid two-factor code', 'INVALID_2FA_CODE');
+    }
+
+    await AttemptLimiter.reset(subjects);
+    await AuthEventService.record({
+      type: 'two_factor',
+      outcome: 'success',
+      userId: user._id,
+      ...context,
+    });
+
+    return this.startSession(user, context);
+  }
+
+  /**
+   * Start two-factor enrollment
+   * The secret stays pending until confirmed with a first code
+   */
+  async setupTwoFactor(userId: string): Promise<ITwoFactorSetup> {
+    const user = await User.findById(userId);
+
+    if (!user) {
+      throw new AuthError('User not found', 'USER_NOT_FOUND');
+    }
+
+    if (user.twoFactorEnabled) {
+      throw new AuthError('Two-factor authentication is already enabled', 'TWO_FACTOR_ALREADY_ENABLED');
+    }
+
+    const secret = generateTotpSecret();
+    await User.updateOne({ _id: user._id }, { twoFactorPendingSecret: secret });
+
+    const issuer = process.env.TOTP_ISSUER || '491JobSeeker';
 
     return {
-      user: user.toResponse(),
-      verificationCode,
+      secret,
+      otpauthUri: buildOtpauthUri(secret, user.email, issuer),
     };
   }
 
   /**
-   * Verify email with code
+   * Confirm two-factor enrollment with a first code
+   * Returns the recovery codes; they are only stored hashed and cannot be shown again
    */
-  async verifyEmail(email: string, code: string): Promise<IVerificationResult> {
-    // Find user with verification code (select the hidden fields)
-    const user = await User.findOne({
-      email,
-    }).select('+verificationCode +verificationCodeExpires');
+  async confirmTwoFactor(userId: string, code: string): Promise<string[]> {
+    const user = await User.findById(userId).select('+twoFactorPendingSecret');
 
     if (!user) {
       throw new AuthError('User not found', 'USER_NOT_FOUND');
     }
 
-    // Check if code exists and matches
-    if (!user.verificationCode || user.verificationCode !== code) {
-      throw new AuthError('Invalid verification code', 'INVALID_CODE');
+    if (user.twoFactorEnabled) {
+      throw new AuthError('Two-factor authentication is already enabled', 'TWO_FACTOR_ALREADY_ENABLED');
     }
 
-    // Check if code has expired
-    if (!user.verificationCodeExpires || user.verificationCodeExpires < new Date()) {
-      throw new AuthError('Verification code has expired', 'CODE_EXPIRED');
+    if (!user.twoFactorPendingSecret) {
+      throw new AuthError('Two-factor setup has not been started', 'TWO_FACTOR_NOT_PENDING');
     }
 
-    // Mark email as verified and clear verification code
-    user.emailVerified = true;
-    user.verificationCode = undefined;
-    user.verificationCodeExpires = undefined;
+    const step = verifyTotp(user.twoFactorPendingSecret, code);
 
-    await user.save();
+    if (step === null) {
+      throw new AuthError('Invalid two-factor code', 'INVALID_2FA_CODE');
+    }
+
+    const recoveryCodes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+
+    await User.updateOne(
+      { _id: user._id },
+      {
+        $set: {
+          twoFactorEnabled: true,
+          twoFactorSecret: user.twoFactorPendingSecret,
+          twoFactorRecoveryCodes: recoveryCodes.map(hashRecoveryCode),
+          twoFactorLastStep: step,
+        },
+        $unset: { twoFactorPendingSecret: '' },
+      }
+    );
+
+    return recoveryCodes;
+  }
+
+  /**
+   * Disable two-factor authentication (requires password and a second factor)
+   */
+  async disableTwoFactor(
+    userId: string,
+    password: string,
+    factor: ISecondFactor
+  ): Promise<IUserResponse> {
+    const user = await User.findById(userId).select('+passwordHash +twoFactorSecret');
+
+    if (!user) {
+      throw new AuthError('User not found', 'USER_NOT_FOUND');
+    }
+
+    if (!user.twoFactorEnabled) {
+      throw new AuthError('Two-factor authentication is not enabled', 'TWO_FACTOR_NOT_ENABLED');
+    }
+
+    if (!(await user.comparePassword(password))) {
+      throw new AuthError('Invalid password', 'INVALID_CREDENTIALS');
+    }
+
+    if (!(await this.verifySecondFactor(user, factor))) {
+      throw new AuthError('Invalid two-factor code', 'INVALID_2FA_CODE');
+    }
+
+    await User.updateOne(
+      { _id: user._id },
+      {
+        $set: { twoFactorEnabled: false },
+        $unset: {
+          twoFactorSecret: '',
+          twoFactorPendingSecret: '',
+          twoFactorRecoveryCodes: '',
+          twoFactorLastStep: '',
+        },
+      }
+    );
+    user.twoFactorEnabled = false;
+
+    return user.toResponse();
+  }
+
+  /**
+   * Check a TOTP code or consume a recovery code
+   * TOTP codes cannot be replayed: each time step is accepted at most once
+   */
+  private async verifySecondFactor(user: IUser, factor: ISecondFactor): Promise<boolean> {
+    if (factor.code && user.twoFactorSecret) {
+      const step = verifyTotp(user.twoFactorSecret, factor.code);
+      if (step === null) {
+        return false;
+      }
+
+      const result = await User.updateOne(
+        {
+          _id: user._id,
+          $or: [{ twoFactorLastStep: { $exists: false } }, { twoFactorLastStep: { $lt: step } }],
+        },
+        { twoFactorLastStep: step }
+      );
+      return result.modifiedCount === 1;
+    }
+
+    if (factor.recoveryCode) {
+      const hash = hashRecoveryCode(factor.recoveryCode);
+      const result = await User.updateOne(
+        { _id: user._id, twoFactorRecoveryCodes: hash },
+        { $pull: { twoFactorRecoveryCodes: hash } }
+      );
+      return result.modifiedCount === 1;
+    }
+
+    return false;
+  }
+
+  /**
+   * Record a new login session and issue its first token pair
+   */
+  private async startSession(user: IUser, context: IRequestContext): Promise<ILoginResult> {
+    // Logging in during the deletion grace period cancels the deletion
+    if (user.deletionScheduledFor) {
+      await User.updateOne({ _id: user._id }, { $unset: { deletionScheduledFor: '' } });
+      user.deletionScheduledFor = undefined;
+    }
+
+    const session = await Session.create({
+      userId: user._id,
+      userAgent: context.userAgent,
+      ip: context.ip,
+      lastSeenAt: new Date(),
+      expiresAt: new Date(Date.now() + getRefreshTokenTTL()),
+    });
+
+    const tokens = await this.issueTokens(user, session._id.toString());
 
     return {
       user: user.toResponse(),
+      ...tokens,
     };
   }
 
   /**
-   * Login user
+   * Exchange a refresh token for a new token pair
+   * The presented token is rotated; presenting an already rotated token
+   * revokes the whole session
    */
-  async login(email: string, password: string): Promise<ILoginResult> {
-    // Find user with password hash
-    const user = await User.findOne({ email }).select('+passwordHash');
+  async refresh(refreshToken: string, context: IRequestContext = {}): Promise<ITokenPair> {
+    const tokenHash = hashToken(refreshToken);
 
-    if (!user) {
-      throw new AuthError('Invalid email or password', 'INVALID_CREDENTIALS');
+    // Atomically consume the token so concurrent refreshes cannot both succeed
+    const stored = await RefreshToken.findOneAndUpdate(
+      { tokenHash, revokedAt: { $exists: false } },
+      { revokedAt: new Date() }
+    );
+
+    if (!stored) {
+      const existing = await RefreshToken.findOne({ tokenHash });
+
+      if (existing?.replacedByHash) {
+        // Token was already rotated: it has been stolen or replayed
+        await this.revokeSessions({ _id: existing.family });
+        await AuthEventService.record({
+          type: 'refresh',
+          outcome: 'failure',
+          reason: 'REFRESH_TOKEN_REUSED',
+          userId: existing.userId,
+          ...context,
+        });
+        throw new AuthError('Refresh token reuse detected', 'REFRESH_TOKEN_REUSED');
+      }
+
+      throw new AuthError('Invalid or expired refresh token', 'INVALID_REFRESH_TOKEN');
     }
 
-    // Check if email is verified
-    if (!user.emailVerified) {
-      throw new AuthError('Please verify your email before logging in', 'EMAIL_NOT_VERIFIED');
+    if (stored.expiresAt < new Date()) {
+      throw new AuthError('Invalid or expired refresh token', 'INVALID_REFRESH_TOKEN');
     }
 
-    // Compare password
-    const isPasswordValid = await user.comparePassword(password);
+    const [user, session] = await Promise.all([
+      User.findById(stored.userId),
+      Session.findById(stored.family),
+    ]);
 
-    if (!isPasswordValid) {
-      throw new AuthError('Invalid email or password', 'INVALID_CREDENTIALS');
+    if (!user || !session || !session.isActive()) {
+      throw new AuthError('Invalid or expired refresh token', 'INVALID_REFRESH_TOKEN');
     }
 
-    // Generate JWT token
+    const tokens = await this.issueTokens(user, stored.family);
+
+    await Promise.all([
+      RefreshToken.updateOne(
+        { _id: stored._id },
+        { replacedByHash: hashToken(tokens.refreshToken) }
+      ),
+      Session.updateOne(
+        { _id: session._id },
+        {
+          lastSeenAt: new Date(),
+          expiresAt: new Date(Date.now() + getRefreshTokenTTL()),
+          ...(context.ip && { ip: context.ip }),
+          ...(context.userAgent && { userAgent: context.userAgent }),
+        }
+      ),
+    ]);
+
+    return tokens;
+  }
+
+  /**
+   * Logout by revoking the session the refresh token belongs to
+   */
+  async logout(refreshToken: string, context: IRequestContext = {}): Promise<void> {
+    const stored = await RefreshToken.findOne({ tokenHash: hashToken(refreshToken) });
+
+    if (!stored) {
+      return;
+    }
+
+    await this.revokeSessions({ _id: stored.family });
+    await AuthEventService.record({
+      type: 'logout',
+      outcome: 'success',
+      userId: stored.userId,
+      ...context,
+    });
+  }
+
+  /**
+   * List active sessions of a user, most recently used first
+   */
+  async listSessions(userId: string): Promise<ISessionResponse[]> {
+    const sessions = await Session.find({
+      userId,
+      revokedAt: { $exists: false },
+      expiresAt: { $gt: new Date() },
+    }).sort({ lastSeenAt: -1 });
+
+    return sessions.map(session => session.toResponse());
+  }
+
+  /**
+   * Revoke a single session of a user
+   */
+  async revokeSession(userId: string, sessionId: string): Promise<void> {
+    if (!mongoose.Types.ObjectId.isValid(sessionId)) {
+      throw new AuthError('Session not found', 'SESSION_NOT_FOUND');
+    }
+
+    const revoked = await this.revokeSessions({ _id: sessionId, userId });
+
+    if (revoked === 0) {
+      throw new AuthError('Session not found', 'SESSION_NOT_FOUND');
+    }
+  }
+
+  /**
+   * Revoke all sessions of a user except the given one
+   * Returns the number of sessions revoked
+   */
+  async revokeOtherSessions(userId: string, currentSessionId?: string): Promise<number> {
+    const filter: Record<string, unknown> = { userId };
+    if (currentSessionId) {
+      filter._id = { $ne: currentSessionId };
+    }
+
+    return this.revokeSessions(filter);
+  }
+
+  /**
+   * Revoke all sessions of a user
+   */
+  async revokeAllSessions(userId: string): Promise<void> {
+    await this.revokeSessions({ userId });
+  }
+
+  /**
+   * Revoke matching sessions together with their refresh tokens
+   * Returns the number of sessions revoked
+   */
+  private async revokeSessions(filter: Record<string, unknown>): Promise<number> {
+    const sessions = await Session.find({ ...filter, revokedAt: { $exists: false } }).select('_id');
+
+    if (sessions.length === 0) {
+      return 0;
+    }
+
+    const ids = sessions.map(session => session._id);
+    const now = new Date();
+
+    await Promise.all([
+      Session.updateMany({ _id: { $in: ids } }, { revokedAt: now }),
+      RefreshToken.updateMany(
+        { family: { $in: ids.map(id => id.toString()) }, revokedAt: { $exists: false } },
+        { revokedAt: now }
+      ),
+    ]);
+
+    return sessions.length;
+  }
+
+  /**
+   * Issue a short-lived access token and a persisted refresh token for a session
+   */
+  private async issueTokens(user: IUser, sessionId: string): Promise<ITokenPair> {
     const payload: IJWTPayload = {
       userId: user._id.toString(),
       email: user.email,
+      role: user.role,
+      sessionId,
     };
 
     const token = generateToken(payload);
+    const refreshToken = generateSecureToken();
 
-    return {
-      user: user.toResponse(),
-      token,
-    };
+    await RefreshToken.create({
+      userId: user._id,
+      tokenHash: hashToken(refreshToken),
+      family: sessionId,
+      expiresAt: new Date(Date.now() + getRefreshTokenTTL()),
+    });
+
+    return { token, refreshToken };
   }
 
   /**
@@ -159,24 +886,264 @@ export class AuthService {
     return user.toResponse();
   }
 
+  /**
+   * Update editable profile fields
+   */
+  async updateProfile(userId: string, updates: IProfileUpdate): Promise<IUserResponse> {
+    const $set: Record<string, unknown> = {};
+    const $unset: Record<string, ''> = {};
+
+    for (const [field, value] of Object.entries(updates)) {
+      if (value === undefined) {
+        continue;
+      }
+      if (value === null) {
+        $unset[`profile.${field}`] = '';
+      } else {
+        $set[`profile.${field}`] = value;
+      }
+    }
+
+    const user = await User.findByIdAndUpdate(
+      userId,
+      {
+        ...(Object.keys($set).length > 0 && { $set }),
+        ...(Object.keys($unset).length > 0 && { $unset }),
+      },
+      { new: true, runValidators: true }
+    );
+
+    if (!user) {
+      throw new AuthError('User not found', 'USER_NOT_FOUND');
+    }
+
+    return user.toResponse();
+  }
+
+  /**
+   * Start an email change
+   * Requires the current password; the code is sent to the new address and
+   * the current address stays active until the change is confirmed
+   */
+  async requestEmailChange(
+    userId: string,
+    newEmail: string,
+    password: string
+  ): Promise<IEmailChangeRequest> {
+    const user = await User.findById(userId).select('+passwordHash');
+
+    if (!user) {
+      throw new AuthError('User not found', 'USER_NOT_FOUND');
+    }
+
+    const isPasswordValid = await user.comparePassword(password);
+
+    if (!isPasswordValid) {
+      throw new AuthError('Invalid password', 'INVALID_CREDENTIALS');
+    }
+
+    const normalizedEmail = newEmail.toLowerCase().trim();
+
+    if (normalizedEmail === user.email) {
+      throw new AuthError('New email must differ from the current email', 'SAME_EMAIL');
+    }
+
+    if (await User.exists({ email: normalizedEmail })) {
+      throw new AuthError('User with this email already exists', 'EMAIL_ALREADY_EXISTS');
+    }
+
+    const code = user.generateEmailChangeCode(normalizedEmail);
+    await user.save();
+
+    return { newEmail: normalizedEmail, code };
+  }
+
+  /**
+   * Confirm an email change with the code sent to the new address
+   */
+  async confirmEmailChange(userId: string, code: string): Promise<IEmailChangeResult> {
+    const user = await User.findById(userId).select(
+      '+pendingEmail +emailChangeCode +emailChangeCodeExpires +emailChangeAttempts'
+    );
+
+    if (!user) {
+      throw new AuthError('User not found', 'USER_NOT_FOUND');
+    }
+
+    if ((user.emailChangeAttempts ?? 0) >= MAX_CODE_ATTEMPTS) {
+      throw new AuthError(
+        'Too many incorrect attempts. Please request a new code',
+        'CODE_ATTEMPTS_EXCEEDED'
+      );
+    }
+
+    if (!user.pendingEmail || !user.matchesOneTimeCode('emailChange', code)) {
+      await this.recordWrongCode(user._id, 'emailChange');
+      throw new AuthError('Invalid verification code', 'INVALID_CODE');
+    }
+
+    if (!user.emailChangeCodeExpires || user.emailChangeCodeExpires < new Date()) {
+      throw new AuthError('Verification code has expired', 'CODE_EXPIRED');
+    }
+
+    // The address may have been registered since the change was requested
+    if (await User.exists({ email: user.pendingEmail })) {
+      throw new AuthError('User with this email already exists', 'EMAIL_ALREADY_EXISTS');
+    }
+
+    const previousEmail = user.email;
+
+    user.email = user.pendingEmail;
+    user.emailVerified = true;
+    user.pendingEmail = undefined;
+    user.emailChangeCode = undefined;
+    user.emailChangeCodeExpires = undefined;
+    user.emailChangeAttempts = undefined;
+
+    try {
+      await user.save();
+    } catch (error) {
+      // Unique index violation: lost a race with another registration
+      if (isDuplicateKeyError(error)) {
+        throw new AuthError('User with this email already exists', 'EMAIL_ALREADY_EXISTS');
+      }
+      throw error;
+    }
+
+    return { user: user.toResponse(), previousEmail };
+  }
+
+  /**
+   * List users, optionally filtered by role (admin)
+   */
+  async listUsers(
+    options: { role?: UserRole; page?: number; limit?: number } = {}
+  ): Promise<{ users: IUserResponse[]; total: number; page: number; limit: number }> {
+    const page = Math.max(1, options.page || 1);
+    const limit = Math.min(100, Math.max(1, options.limit || 20));
+    const filter = options.role ? { role: options.role } : {};
+
+    const [users, total] = await Promise.all([
+      User.find(filter)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      User.countDocuments(filter),
+    ]);
+
+    return {
+      users: users.map(user => user.toResponse()),
+      total,
+      page,
+      limit,
+    };
+  }
+
+  /**
+   * Change the role of a user (admin)
+   */
+  async setUserRole(userId: string, role: UserRole): Promise<IUserResponse> {
+    if (!mongoose.Types.ObjectId.isValid(userId)) {
+      throw new AuthError('User not found', 'USER_NOT_FOUND');
+    }
+
+    const user = await User.findByIdAndUpdate(userId, { role }, { new: true });
+
+    if (!user) {
+      throw new AuthError('User not found', 'USER_NOT_FOUND');
+    }
+
+    return user.toResponse();
+  }
+
   /**
    * Resend verification code
    */
-  async resendVerificationCode(email: string): Promise<string> {
+  async resendVerificationCode(email: string, context: IRequestContext = {}): Promise<string> {
+    return this.audited({ type: 'resend_verification', email }, context, async () => {
+      const user = await User.findOne({ email });
+
+      if (!user) {
+        throw new AuthError('User not found', 'USER_NOT_FOUND');
+      }
+
+      if (user.emailVerified) {
+        throw new AuthError('Email is already verified', 'EMAIL_ALREADY_VERIFIED');
+      }
+
+      const code = user.generateVerificationCode();
+      await user.save();
+
+      return code;
+    });
+  }
+
+  /**
+   * Request a password reset
+   * Returns the raw reset token, or null if no account exists for the email
+   * (callers should not reveal which case occurred)
+   */
+  async requestPasswordReset(email: string, context: IRequestContext = {}): Promise<string | null> {
     const user = await User.findOne({ email });
 
     if (!user) {
-      throw new AuthError('User not found', 'USER_NOT_FOUND');
+      return null;
     }
 
-    if (user.emailVerified) {
-      throw new AuthError('Email is already verified', 'EMAIL_ALREADY_VERIFIED');
+    const token = user.generatePasswordResetToken();
+    await user.save();
+    await AuthEventService.record({
+      type: 'password_reset_request',
+      outcome: 'success',
+      userId: user._id,
+      ...context,
+    });
+
+    return token;
+  }
+
+  /**
+   * Reset password with a reset token
+   * The token is single-use, and all previously issued tokens are invalidated
+   */
+  async resetPassword(
+    token: string,
+    newPassword: string,
+    context: IRequestContext = {}
+  ): Promise<IUserResponse> {
+    const user = await User.findOne({
+      passwordResetToken: hashToken(token),
+    }).select('+passwordHash +passwordResetToken +passwordResetExpires');
+
+    if (!user || !user.passwordResetExpires || user.passwordResetExpires < new Date()) {
+      await AuthEventService.record({
+        type: 'password_reset',
+        outcome: 'failure',
+        reason: 'INVALID_RESET_TOKEN',
+        userId: user?._id,
+        ...context,
+      });
+      throw new AuthError('Invalid or expired reset token', 'INVALID_RESET_TOKEN');
     }
 
-    const code = user.generateVerificationCode();
+    // Update password (will be hashed by pre-save hook) and consume the token
+    user.passwordHash = newPassword;
+    user.passwordResetToken = undefined;
+    user.passwordResetExpires = undefined;
+    user.passwordChangedAt = new Date();
+
     await user.save();
 
-    return code;
+    // Sign out every existing session
+    await this.revokeAllSessions(user._id.toString());
+    await AuthEventService.record({
+      type: 'password_reset',
+      outcome: 'success',
+      userId: user._id,
+      ...context,
+    });
+
+    return user.toResponse();
   }
 }
 
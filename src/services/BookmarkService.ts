@@ -0,0 +1,89 @@
+import Bookmark, { IBookmarkResponse, snapshotJob } from '../models/Bookmark';
+import filteredJobService from '../models/FilteredJob';
+
+/**
+ * Paginated bookmark list
+ */
+export interface IBookmarkList {
+  bookmarks: IBookmarkResponse[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+/**
+ * Bookmark Service
+ * Manages users' shortlists of jobs
+ */
+export class BookmarkService {
+  /**
+   * Bookmark a job, or refresh the snapshot of an existing bookmark
+   * Returns null when the job does not exist
+   */
+  async addBookmark(userId: string, jobId: string): Promise<IBookmarkResponse | null> {
+    const job = await filteredJobService.getJobById(jobId);
+    if (!job) {
+      return null;
+    }
+
+    const bookmark = await Bookmark.findOneAndUpdate(
+      { userId, jobId: job._id.toString() },
+      { job: snapshotJob(job) },
+      { upsert: true, new: true, setDefaultsOnInsert: true }
+    );
+
+    return bookmark.toResponse();
+  }
+
+  /**
+   * Remove a bookmark
+   * Returns false when the job was not bookmarked
+   */
+  async removeBookmark(userId: string, jobId: string): Promise<boolean> {
+    const result = await Bookmark.deleteOne({ userId, jobId });
+
+    return result.deletedCount > 0;
+  }
+
+  /**
+   * List a user's bookmarks, newest first
+   */
+  async listBookmarks(
+    userId: string,
+    options: { page?: number; limit?: number } = {}
+  ): Promise<IBookmarkList> {
+    const page = Math.max(1, options.page || 1);
+    const limit = Math.min(100, Math.max(1, options.limit || 20));
+
+    const [bookmarks, total] = await Promise.all([
+      Bookmark.find({ userId })
+        .sort({ createdAt: -1, _id: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      Bookmark.countDocuments({ userId }),
+    ]);
+
+    return {
+      bookmarks: bookmarks.map(bookmark => bookmark.toResponse()),
+      total,
+      page,
+      limit,
+    };
+  }
+
+  /**
+   * Get which of the given jobs the user has bookmarked
+   */
+  async getBookmarkedJobIds(userId: string, jobIds: string[]): Promise<Set<string>> {
+    if (jobIds.length === 0) {
+      return new Set();
+    }
+
+    const bookmarks = await Bookmark.find({ userId, jobId: { $in: jobIds } }).select('jobId');
+
+    return new Set(bookmarks.map(bookmark => bookmark.jobId));
+  }
+}
+
+// Export singleton instance
+export default new BookmarkService();
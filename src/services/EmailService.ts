@@ -1,4 +1,27 @@
 import nodemailer from 'nodemailer';
+import { escapeHtml } from '../utils/html';
+
+/**
+ * Job listed in an alert email
+ */
+export interface IJobAlertItem {
+  title: string;
+  company: string;
+  location: string;
+  matchScore: number;
+  applyLink: string;
+}
+
+/**
+ * Saved search section of an alert email
+ */
+export interface IJobAlertSection {
+  searchName: string;
+  jobs: IJobAlertItem[];
+  moreCount: number; // Further new jobs not listed
+  searchUrl: string;
+  unsubscribeUrl: string;
+}
 
 /**
  * Email Service
@@ -40,39 +63,184 @@ export class EmailService {
    * Send verification email
    */
   async sendVerificationEmail(email: string, code: string): Promise<void> {
+    await this.deliver(
+      {
+        to: email,
+        subject: 'Verify your email - 491JobSeeker',
+        html: this.getVerificationEmailTemplate(code),
+        text: `Your verification code is: ${code}`,
+      },
+      `Verification code for ${email}: ${code}`,
+      'Failed to send verification email'
+    );
+  }
+
+  /**
+   * Send password reset email
+   */
+  async sendPasswordResetEmail(email: string, token: string): Promise<void> {
+    const resetUrl = `${this.getFrontendUrl()}/reset-password?token=${encodeURIComponent(token)}`;
+
+    await this.deliver(
+      {
+        to: email,
+        subject: 'Reset your password - 491JobSeeker',
+        html: this.getPasswordResetEmailTemplate(resetUrl),
+        text: `Reset your password using this link (expires in 1 hour): ${resetUrl}`,
+      },
+      `Password reset link for ${email}: ${resetUrl}`,
+      'Failed to send password reset email'
+    );
+  }
+
+  /**
+   * Send a passwordless login code, with a link that signs in directly
+   */
+  async sendLoginCode(email: string, code: string): Promise<void> {
+    const params = new URLSearchParams({ email, code });
+    const loginUrl = `${this.getFrontendUrl()}/login/email?${params.toString()}`;
+
+    await this.deliver(
+      {
+        to: email,
+        subject: 'Your login code - 491JobSeeker',
+        html: this.getLoginCodeTemplate(code, loginUrl),
+        text: `Your login code is: ${code}\nOr sign in using this link (expires in 15 minutes): ${loginUrl}`,
+      },
+      `Login code for ${email}: ${code}`,
+      'Failed to send login code'
+    );
+  }
+
+  /**
+   * Send email change verification code to the new address
+   */
+  async sendEmailChangeCode(newEmail: string, code: string): Promise<void> {
+    await this.deliver(
+      {
+        to: newEmail,
+        subject: 'Confirm your new email - 491JobSeeker',
+        html: this.getEmailChangeTemplate(code),
+        text: `Your code to confirm this email address is: ${code}`,
+      },
+      `Email change code for ${newEmail}: ${code}`,
+      'Failed to send email change code'
+    );
+  }
+
+  /**
+   * Notify the previous address that the account email was changed
+   */
+  async sendEmailChangedNotice(previousEmail: string, newEmail: string): Promise<void> {
+    await this.deliver(
+      {
+        to: previousEmail,
+        subject: 'Your email address was changed - 491JobSeeker',
+        html: this.getEmailChangedNoticeTemplate(newEmail),
+        text: `The email address of your 491JobSeeker account was changed to ${newEmail}. If you did not make this change, please contact support immediately.`,
+      },
+      `Email change notice for ${previousEmail}: changed to ${newEmail}`,
+      'Failed to send email change notice'
+    );
+  }
+
+  /**
+   * Send a digest of new jobs matching the user's saved searches
+   * unsubscribeAllUrl, when given, is offered to mail clients as a one-click
+   * List-Unsubscribe target (it must accept POST)
+   */
+  async sendJobAlertDigest(
+    email: string,
+    sections: IJobAlertSection[],
+    unsubscribeAllUrl?: string
+  ): Promise<void> {
+    const total = sections.reduce(
+      (sum, section) => sum + section.jobs.length + section.moreCount,
+      0
+    );
+    const text = sections
+      .map(section =>
+        [
+          `${section.searchName}:`,
+          ...section.jobs.map(
+            job =>
+              `- ${job.title} at ${job.company} (${job.location}), match ${job.matchScore}%: ${job.applyLink}`
+          ),
+          ...(section.moreCount > 0 ? [`...and ${section.moreCount} more: ${section.searchUrl}`] : []),
+          `Stop these alerts: ${section.unsubscribeUrl}`,
+        ].join('\n')
+      )
+      .join('\n\n');
+
+    await this.deliver(
+      {
+        to: email,
+        subject: `${total} new job${total === 1 ? '' : 's'} for your saved searches - 491JobSeeker`,
+        html: this.getJobAlertTemplate(sections),
+        text,
+        ...(unsubscribeAllUrl && {
+          headers: {
+            'List-Unsubscribe': `<${unsubscribeAllUrl}>`,
+            'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+          },
+        }),
+      },
+      `Job alert for ${email}:\n${text}`,
+      'Failed to send job alert'
+    );
+  }
+
+  /**
+   * Send an email, or log it to the console when SMTP is not configured
+   */
+  private async deliver(
+    message: {
+      to: string;
+      subject: string;
+      html: string;
+      text: string;
+      headers?: Record<string, string>;
+    },
+    consoleMessage: string,
+    failureMessage: string
+  ): Promise<void> {
     // If no transporter configured, log to console (for development)
     if (!this.transporter) {
-      console.log(`[EMAIL SERVICE] Verification code for ${email}: ${code}`);
+      console.log(`[EMAIL SERVICE] ${consoleMessage}`);
       return;
     }
 
     const mailOptions = {
       from: this.fromAddress,
-      to: email,
-      subject: 'Verify your email - 491JobSeeker',
-      html: this.getVerificationEmailTemplate(code),
-      text: `Your verification code is: ${code}`,
+      ...message,
     };
 
     try {
       await this.transporter.sendMail(mailOptions);
     } catch (error) {
       console.error('Failed to send email:', error);
-      throw new Error('Failed to send verification email');
+      throw new Error(failureMessage);
     }
   }
 
   /**
-   * Get HTML template for verification email
+   * Get base URL of the frontend (used for links in emails)
    */
-  private getVerificationEmailTemplate(code: string): string {
+  private getFrontendUrl(): string {
+    return (process.env.FRONTEND_URL || 'http://localhost:5173').replace(/\/$/, '');
+  }
+
+  /**
+   * Wrap email content in the shared HTML layout
+   */
+  private renderLayout(title: string, content: string): string {
     return `
       <!DOCTYPE html>
       <html>
         <head>
           <meta charset="utf-8">
           <meta name="viewport" content="width=device-width, initial-scale=1.0">
-          <title>Verify Your Email</title>
+          <title>${title}</title>
           <style>
             body {
               font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, Cantarell, sans-serif;
@@ -103,11 +271,29 @@ export class EmailService {
               margin: 30px 0;
               display: inline-block;
             }
+            .button {
+              background-color: #3b82f6;
+              color: white !important;
+              font-size: 16px;
+              font-weight: bold;
+              text-decoration: none;
+              padding: 14px 32px;
+              border-radius: 8px;
+              margin: 30px 0;
+              display: inline-block;
+            }
             .expires {
               color: #6b7280;
               font-size: 14px;
               margin-top: 20px;
             }
+            .job {
+              background-color: white;
+              border-radius: 8px;
+              padding: 12px 16px;
+              margin: 12px 0;
+              text-align: left;
+            }
             .footer {
               margin-top: 40px;
               color: #9ca3af;
@@ -117,12 +303,7 @@ export class EmailService {
         </head>
         <body>
           <div class="container">
-            <h1>Verify Your Email Address</h1>
-            <p>Thank you for registering with 491JobSeeker!</p>
-            <p>Please use the following verification code to complete your registration:</p>
-            <div class="code">${code}</div>
-            <p class="expires">This code will expire in 15 minutes.</p>
-            <p>If you didn't create an account, you can safely ignore this email.</p>
+            ${content}
             <div class="footer">
               &copy; ${new Date().getFullYear()} 491JobSeeker. All rights reserved.
             </div>
@@ -132,6 +313,121 @@ export class EmailService {
     `;
   }
 
+  /**
+   * Get HTML template for verification email
+   */
+  private getVerificationEmailTemplate(code: string): string {
+    return this.renderLayout(
+      'Verify Your Email',
+      `
+            <h1>Verify Your Email Address</h1>
+            <p>Thank you for registering with 491JobSeeker!</p>
+            <p>Please use the following verification code to complete your registration:</p>
+            <div class="code">${code}</div>
+            <p class="expires">This code will expire in 15 minutes.</p>
+            <p>If you didn't create an account, you can safely ignore this email.</p>
+      `
+    );
+  }
+
+  /**
+   * Get HTML template for password reset email
+   */
+  private getPasswordResetEmailTemplate(resetUrl: string): string {
+    return this.renderLayout(
+      'Reset Your Password',
+      `
+            <h1>Reset Your Password</h1>
+            <p>We received a request to reset the password for your 491JobSeeker account.</p>
+            <p>Click the button below to choose a new password:</p>
+            <a class="button" href="${resetUrl}">Reset Password</a>
+            <p class="expires">This link will expire in 1 hour and can only be used once.</p>
+            <p>If you didn't request a password reset, you can safely ignore this email. Your password will not change.</p>
+      `
+    );
+  }
+
+  /**
+   * Get HTML template for passwordless login code
+   */
+  private getLoginCodeTemplate(code: string, loginUrl: string): string {
+    return this.renderLayout(
+      'Your Login Code',
+      `
+            <h1>Log In to 491JobSeeker</h1>
+            <p>Use the following code to log in:</p>
+            <div class="code">${code}</div>
+            <p>Or click the button below to log in directly:</p>
+            <a class="button" href="${loginUrl}">Log In</a>
+            <p class="expires">This code will expire in 15 minutes and can only be used once.</p>
+            <p>If you didn't try to log in, you can safely ignore this email.</p>
+      `
+    );
+  }
+
+  /**
+   * Get HTML template for email change code
+   */
+  private getEmailChangeTemplate(code: string): string {
+    return this.renderLayout(
+      'Confirm Your New Email',
+      `
+            <h1>Confirm Your New Email Address</h1>
+            <p>You asked to use this address for your 491JobSeeker account.</p>
+            <p>Please use the following code to confirm the change:</p>
+            <div class="code">${code}</div>
+            <p class="expires">This code will expire in 15 minutes.</p>
+            <p>If you didn't request this, you can safely ignore this email.</p>
+      `
+    );
+  }
+
+  /**
+   * Get HTML template for email changed notice
+   */
+  private getEmailChangedNoticeTemplate(newEmail: string): string {
+    return this.renderLayout(
+      'Your Email Address Was Changed',
+      `
+            <h1>Your Email Address Was Changed</h1>
+            <p>The email address of your 491JobSeeker account was changed to <strong>${newEmail}</strong>.</p>
+            <p>This address will no longer receive emails about your account.</p>
+            <p>If you didn't make this change, please contact support immediately.</p>
+      `
+    );
+  }
+
+  /**
+   * Get HTML template for job alert digest
+   */
+  private getJobAlertTemplate(sections: IJobAlertSection[]): string {
+    const content = sections
+      .map(
+        section => `
+            <h2>${escapeHtml(section.searchName)}</h2>
+            ${section.jobs
+              .map(
+                job => `
+            <div class="job">
+              <a href="${escapeHtml(job.applyLink)}"><strong>${escapeHtml(job.title)}</strong></a><br>
+              ${escapeHtml(job.company)} &middot; ${escapeHtml(job.location)} &middot; ${job.matchScore}% match
+            </div>`
+              )
+              .join('')}
+            ${section.moreCount > 0 ? `<p><a href="${escapeHtml(section.searchUrl)}">See ${section.moreCount} more</a></p>` : ''}
+            <p class="expires"><a href="${escapeHtml(section.unsubscribeUrl)}">Stop alerts for this search</a></p>`
+      )
+      .join('');
+
+    return this.renderLayout(
+      'New Jobs For Your Saved Searches',
+      `
+            <h1>New Jobs For You</h1>
+            ${content}
+      `
+    );
+  }
+
   /**
    * Check if email service is configured
    */
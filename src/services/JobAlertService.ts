@@ -0,0 +1,324 @@
+import mongoose from 'mongoose';
+import SavedSearch, { AlertFrequency, ISavedSearch } from '../models/SavedSearch';
+import AlertDelivery, { IAlertDelivery } from '../models/AlertDelivery';
+import User from '../models/User';
+import filteredJobService, { IFilteredJob } from '../models/FilteredJob';
+import EmailService, { IJobAlertItem, IJobAlertSection } from './EmailService';
+import JobBlockService from './JobBlockService';
+import { isDuplicateKeyError } from '../utils/errors';
+import {
+  IUnsubscribePayload,
+  generateUnsubscribeToken,
+  verifyUnsubscribeToken,
+} from '../utils/jwt';
+
+/**
+ * Maximum jobs listed per saved search in one alert
+ */
+const MAX_JOBS_PER_SEARCH = 10;
+
+/**
+ * Candidate jobs fetched per saved search (some may have been sent already)
+ */
+const CANDIDATE_LIMIT = 100;
+
+/**
+ * How long delivery records are kept; jobs not updated for this long are not new again
+ */
+const DELIVERY_RETENTION = 180 * 24 * 60 * 60 * 1000;
+
+/**
+ * Minimum time between digests for each scheduled frequency
+ */
+const ALERT_PERIODS: Partial<Record<AlertFrequency, number>> = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Alert runs: scheduled digests and alerts after a pipeline run
+ */
+type AlertMode = 'scheduled' | 'pipeline';
+
+/**
+ * Get base URL of the frontend (used for links in alerts)
+ */
+function getFrontendUrl(): string {
+  return (process.env.FRONTEND_URL || 'http://localhost:5173').replace(/\/$/, '');
+}
+
+/**
+ * Only web links are put in emails; anything else links to the job page instead
+ */
+function getApplyLink(job: IFilteredJob): string {
+  return /^https?:\/\//i.test(job.apply_link || '')
+    ? job.apply_link
+    : `${getFrontendUrl()}/jobs/${job._id}`;
+}
+
+/**
+ * Job Alert Service
+ * Emails users new jobs matching their saved searches
+ */
+export class JobAlertService {
+  private running = new Set<AlertMode>();
+  private queued = new Set<AlertMode>();
+
+  /**
+   * Send digests for daily and weekly searches whose period has passed
+   * Returns the number of emails sent
+   */
+  async sendDueAlerts(now: Date = new Date()): Promise<number> {
+    return this.runExclusive('scheduled', now, runAt => {
+      const due = Object.entries(ALERT_PERIODS).map(([frequency, period]) => {
+        const cutoff = new Date(runAt.getTime() - (period as number));
+        return {
+          alertFrequency: frequency,
+          $or: [
+            { lastAlertedAt: { $lte: cutoff } },
+            { lastAlertedAt: { $exists: false }, createdAt: { $lte: cutoff } },
+          ],
+        };
+      });
+
+      return this.alert({ $or: due }, runAt);
+    });
+  }
+
+  /**
+   * Send alerts for searches set to alert after each pipeline run
+   * Returns the number of emails sent
+   */
+  async sendPipelineAlerts(now: Date = new Date()): Promise<number> {
+    return this.runExclusive('pipeline', now, runAt =>
+      this.alert({ alertFrequency: 'instant' }, runAt)
+    );
+  }
+
+  /**
+   * Turn off alerts using a token from an alert email
+   * Returns false for invalid tokens
+   */
+  async unsubscribe(token: string): Promise<boolean> {
+    let payload: IUnsubscribePayload;
+    try {
+      payload = verifyUnsubscribeToken(token);
+    } catch {
+      return false;
+    }
+
+    await SavedSearch.updateMany(
+      {
+        userId: payload.userId,
+        ...(payload.savedSearchId && { _id: payload.savedSearchId }),
+      },
+      { alertFrequency: 'off' }
+    );
+
+    return true;
+  }
+
+  /**
+   * Run one alert run of a mode at a time in this process
+   * Jobs are claimed per delivery (see claimJobs), so runs that still overlap,
+   * such as one on another instance, do not email a job twice.
+   * A run requested while one is in progress is queued and runs once it
+   * finishes, so jobs that arrived in the meantime are not held back until
+   * the next request. Returns 0 for queued requests; the queued run's emails
+   * are counted by the run in progress.
+   */
+  private async runExclusive(
+    mode: AlertMode,
+    now: Date,
+    task: (now: Date) => Promise<number>
+  ): Promise<number> {
+    if (this.running.has(mode)) {
+      this.queued.add(mode);
+      console.log(`Job alert run (${mode}) queued behind the run in progress`);
+      return 0;
+    }
+
+    this.running.add(mode);
+    try {
+      let sent = await task(now);
+      while (this.queued.delete(mode)) {
+        sent += await task(new Date());
+      }
+      return sent;
+    } finally {
+      this.running.delete(mode);
+      this.queued.delete(mode);
+    }
+  }
+
+  /**
+   * Send one digest per user covering their matching saved searches
+   */
+  private async alert(filter: Record<string, unknown>, now: Date): Promise<number> {
+    const searches = await SavedSearch.find(filter).sort({ userId: 1, createdAt: 1 });
+
+    const byUser = new Map<string, ISavedSearch[]>();
+    for (const search of searches) {
+      const userId = search.userId.toString();
+      byUser.set(userId, [...(byUser.get(userId) || []), search]);
+    }
+
+    let sent = 0;
+    for (const [userId, userSearches] of byUser) {
+      try {
+        if (await this.alertUser(userId, userSearches, now)) {
+          sent++;
+        }
+      } catch (error) {
+        console.error(`Failed to send job alerts to user ${userId}:`, error);
+      }
+    }
+
+    return sent;
+  }
+
+  /**
+   * Collect new jobs for a user's searches and email them
+   * Jobs and companies on the user's block list are left out. Jobs are claimed
+   * before the email is sent and released again if sending fails; searches are
+   * only marked as alerted once the email has gone out, so a failed send is
+   * retried on the next run
+   */
+  private async alertUser(userId: string, searches: ISavedSearch[], now: Date): Promise<boolean> {
+    const user = await User.findById(userId);
+    if (!user || !user.emailVerified || user.deletionScheduledFor) {
+      return false;
+    }
+
+    const exclude = await JobBlockService.getExclusions(userId);
+    const sections: IJobAlertSection[] = [];
+    const claims: IAlertDelivery[] = [];
+
+    try {
+      for (const search of searches) {
+        const since = search.lastAlertedAt || search.createdAt;
+        const query = { ...search.query, exclude };
+        const candidates = await filteredJobService.getNewJobs(query, since, CANDIDATE_LIMIT);
+
+        const alreadySent = await AlertDelivery.find({
+          savedSearchId: search._id,
+          jobId: { $in: candidates.map(job => job._id.toString()) },
+        }).select('jobId');
+        const sentIds = new Set(alreadySent.map(delivery => delivery.jobId));
+        const jobs = candidates.filter(job => !sentIds.has(job._id.toString()));
+
+        // Unlisted jobs are only counted in moreCount and linked through searchUrl;
+        // lastAlertedAt moves past them, so they are not alerted again
+        const listed = jobs.slice(0, MAX_JOBS_PER_SEARCH);
+        const claimed = await this.claimJobs(user._id, search._id, listed, now);
+        if (claimed.length === 0) {
+          continue;
+        }
+        claims.push(...claimed);
+
+        // Candidates are capped, so beyond the cap the rest are counted in the database
+        const total =
+          candidates.length < CANDIDATE_LIMIT
+            ? candidates.length
+            : await filteredJobService.countNewJobs(query, since);
+        const claimedIds = new Set(claimed.map(delivery => delivery.jobId));
+        sections.push({
+          searchName: search.name,
+          jobs: listed
+            .filter(job => claimedIds.has(job._id.toString()))
+            .map(
+              (job): IJobAlertItem => ({
+                title: job.job_title,
+                company: job.company_name_normalized,
+                location: job.job_location || [job.city, job.state].filter(Boolean).join(', '),
+                matchScore: job.analysis?.match_score ?? 0,
+                applyLink: getApplyLink(job),
+              })
+            ),
+          moreCount: Math.max(0, total - sentIds.size - listed.length),
+          searchUrl: `${getFrontendUrl()}/saved-searches/${search._id}`,
+          unsubscribeUrl: this.getUnsubscribeUrl(userId, search._id.toString()),
+        });
+      }
+
+      if (sections.length > 0) {
+        await EmailService.sendJobAlertDigest(
+          user.email,
+          sections,
+          this.getOneClickUnsubscribeUrl(userId)
+        );
+      }
+    } catch (error) {
+      // Release the claims so the jobs are sent by the retry
+      await AlertDelivery.deleteMany({ _id: { $in: claims.map(claim => claim._id) } });
+      throw error;
+    }
+
+    await SavedSearch.updateMany(
+      { _id: { $in: searches.map(search => search._id) } },
+      { lastAlertedAt: now }
+    );
+
+    return sections.length > 0;
+  }
+
+  /**
+   * Record jobs as delivered for a saved search before they are emailed
+   * The unique index on (savedSearchId, jobId) lets only one run claim a job,
+   * so overlapping runs, in this process or another instance, never email it
+   * twice. Returns the deliveries this run recorded.
+   */
+  private async claimJobs(
+    userId: mongoose.Types.ObjectId,
+    savedSearchId: ISavedSearch['_id'],
+    jobs: IFilteredJob[],
+    now: Date
+  ): Promise<IAlertDelivery[]> {
+    const claimed: IAlertDelivery[] = [];
+
+    for (const job of jobs) {
+      try {
+        const delivery = await AlertDelivery.create({
+          userId,
+          savedSearchId,
+          jobId: job._id.toString(),
+          sentAt: now,
+          expiresAt: new Date(now.getTime() + DELIVERY_RETENTION),
+        });
+        claimed.push(delivery);
+      } catch (error) {
+        // Another run claimed the job
+        if (!isDuplicateKeyError(error)) {
+          throw error;
+        }
+      }
+    }
+
+    return claimed;
+  }
+
+  /**
+   * Link to the frontend page that confirms turning off one search's alerts
+   */
+  private getUnsubscribeUrl(userId: string, savedSearchId: string): string {
+    const token = generateUnsubscribeToken(userId, savedSearchId);
+    return `${getFrontendUrl()}/alerts/unsubscribe?token=${encodeURIComponent(token)}`;
+  }
+
+  /**
+   * API endpoint mail clients can POST to for one-click unsubscribe from all alerts
+   * Only available when the public API URL is configured
+   */
+  private getOneClickUnsubscribeUrl(userId: string): string | undefined {
+    const apiUrl = process.env.API_URL?.replace(/\/$/, '');
+    if (!apiUrl) {
+      return undefined;
+    }
+
+    const token = generateUnsubscribeToken(userId);
+    return `${apiUrl}/api/saved-searches/alerts/unsubscribe?token=${encodeURIComponent(token)}`;
+  }
+}
+
+// Export singleton instance
+export default new JobAlertService();
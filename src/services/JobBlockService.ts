@@ -0,0 +1,139 @@
+import mongoose from 'mongoose';
+import JobBlock, { IJobBlockResponse, JobBlockType } from '../models/JobBlock';
+import filteredJobService, { JobExclusions } from '../models/FilteredJob';
+import { ServiceError, isDuplicateKeyError } from '../utils/errors';
+
+/**
+ * Maximum number of block entries (dismissed jobs included) per user
+ */
+const MAX_JOB_BLOCKS = 5000;
+
+/**
+ * Job Block Service
+ * Manages the jobs, companies and keywords users hide from listings
+ */
+export class JobBlockService {
+  /**
+   * Dismiss a job
+   * Returns null when the job does not exist
+   */
+  async dismissJob(userId: string, jobId: string): Promise<IJobBlockResponse | null> {
+    const job = await filteredJobService.getJobById(jobId);
+    if (!job) {
+      return null;
+    }
+
+    return this.upsertBlock(
+      userId,
+      'job',
+      job._id.toString(),
+      `${job.job_title} at ${job.company_name_normalized}`
+    );
+  }
+
+  /**
+   * Show a dismissed job again
+   * Returns false when the job was not dismissed
+   */
+  async restoreJob(userId: string, jobId: string): Promise<boolean> {
+    const result = await JobBlock.deleteOne({ userId, type: 'job', value: jobId });
+
+    return result.deletedCount > 0;
+  }
+
+  /**
+   * Block a company or keyword
+   */
+  async addBlock(
+    userId: string,
+    type: Exclude<JobBlockType, 'job'>,
+    value: string
+  ): Promise<IJobBlockResponse> {
+    return this.upsertBlock(userId, type, value.trim().toLowerCase());
+  }
+
+  /**
+   * List a user's block entries, newest first
+   */
+  async listBlocks(userId: string, type?: JobBlockType): Promise<IJobBlockResponse[]> {
+    const blocks = await JobBlock.find({ userId, ...(type && { type }) }).sort({
+      createdAt: -1,
+      _id: -1,
+    });
+
+    return blocks.map(block => block.toResponse());
+  }
+
+  /**
+   * Remove a block entry
+   * Returns false when it does not exist or belongs to someone else
+   */
+  async removeBlock(userId: string, blockId: string): Promise<boolean> {
+    if (!mongoose.Types.ObjectId.isValid(blockId)) {
+      return false;
+    }
+
+    const result = await JobBlock.deleteOne({ _id: blockId, userId });
+
+    return result.deletedCount > 0;
+  }
+
+  /**
+   * Get what to leave out of a user's job listings
+   * Returns undefined when nothing is blocked
+   */
+  async getExclusions(userId: string): Promise<JobExclusions | undefined> {
+    const blocks = await JobBlock.find({ userId }).select('type value');
+    if (blocks.length === 0) {
+      return undefined;
+    }
+
+    const valuesOf = (type: JobBlockType) =>
+      blocks.filter(block => block.type === type).map(block => block.value);
+
+    return {
+      jobIds: valuesOf('job'),
+      companies: valuesOf('company'),
+      keywords: valuesOf('keyword'),
+    };
+  }
+
+  /**
+   * Add a block entry, returning the existing one if the value is already blocked
+   */
+  private async upsertBlock(
+    userId: string,
+    type: JobBlockType,
+    value: string,
+    label?: string
+  ): Promise<IJobBlockResponse> {
+    const existing = await JobBlock.findOne({ userId, type, value });
+    if (existing) {
+      return existing.toResponse();
+    }
+
+    const count = await JobBlock.countDocuments({ userId });
+    if (count >= MAX_JOB_BLOCKS) {
+      throw new ServiceError(
+        `You can hide at most ${MAX_JOB_BLOCKS} jobs, companies and keywords`,
+        'JOB_BLOCK_LIMIT_REACHED',
+        409
+      );
+    }
+
+    try {
+      const block = await JobBlock.create({ userId, type, value, label });
+      return block.toResponse();
+    } catch (error) {
+      // Unique index violation: added by a concurrent request
+      if (isDuplicateKeyError(error)) {
+        const block = await JobBlock.findOne({ userId, type, value });
+        if (block) return block.toResponse();
+      }
+      throw error;
+    }
+  }
+}
+
+// Export singleton instance
+export default new JobBlockService();
@@ -134,6 +134,27 @@ class ResumeService {
     };
   }
 
+  /**
+   * Get metadata of all resumes owned by a user
+   * @param userId - Owner user ID
+   * @returns Resume metadata, oldest first
+   */
+  async getResumesByUser(userId: string): Promise<ResumeMetadata[]> {
+    const bucket = this.getBucket();
+
+    const files = await bucket
+      .find({ 'metadata.userId': userId })
+      .sort({ uploadDate: 1 })
+      .toArray();
+
+    return files.map(file => ({
+      id: file._id.toString(),
+      fileName: file.filename,
+      uploadDate: file.uploadDate,
+      metadata: file.metadata as ResumeMetadata['metadata'],
+    }));
+  }
+
   /**
    * Get resume file content by ID
    * @param resumeId - Resume file ID
@@ -169,6 +190,19 @@ class ResumeService {
     await bucket.delete(new ObjectId(resumeId));
   }
 
+  /**
+   * Delete all resumes owned by a user from GridFS
+   * @param userId - Owner user ID
+   * @returns Number of files deleted
+   */
+  async deleteResumesByUser(userId: string): Promise<number> {
+    const resumes = await this.getResumesByUser(userId);
+    for (const resume of resumes) {
+      await this.deleteResume(resume.id);
+    }
+    return resumes.length;
+  }
+
   /**
    * Validate file type and size
    * @param file - File to validate
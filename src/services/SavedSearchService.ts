@@ -0,0 +1,169 @@
+import mongoose from 'mongoose';
+import SavedSearch, {
+  AlertFrequency,
+  ISavedSearchResponse,
+  SavedJobQuery,
+} from '../models/SavedSearch';
+import filteredJobService, { FilteredJobQuery, PaginatedFilteredJobs } from '../models/FilteredJob';
+import JobBlockService from './JobBlockService';
+import { ServiceError } from '../utils/errors';
+
+/**
+ * Maximum number of saved searches per user
+ */
+const MAX_SAVED_SEARCHES = 50;
+
+/**
+ * Saved search with the number of matching jobs new since it was last viewed
+ */
+export interface ISavedSearchSummary extends ISavedSearchResponse {
+  newCount: number;
+}
+
+/**
+ * Paging options for running a saved search
+ */
+export type SavedSearchRunOptions = Pick<
+  FilteredJobQuery,
+  'page' | 'limit' | 'cursor' | 'includeTotal' | 'facets'
+>;
+
+/**
+ * Fields a saved search update can change
+ */
+export interface ISavedSearchUpdate {
+  name?: string;
+  query?: SavedJobQuery;
+  alertFrequency?: AlertFrequency;
+}
+
+/**
+ * Saved Search Service
+ * Manages users' saved job searches
+ */
+export class SavedSearchService {
+  /**
+   * Save a search
+   */
+  async createSearch(
+    userId: string,
+    name: string,
+    query: SavedJobQuery,
+    alertFrequency: AlertFrequency = 'off'
+  ): Promise<ISavedSearchSummary> {
+    const count = await SavedSearch.countDocuments({ userId });
+
+    if (count >= MAX_SAVED_SEARCHES) {
+      throw new ServiceError(
+        `You can have at most ${MAX_SAVED_SEARCHES} saved searches`,
+        'SAVED_SEARCH_LIMIT_REACHED',
+        409
+      );
+    }
+
+    const search = await SavedSearch.create({ userId, name, query, alertFrequency });
+
+    return { ...search.toResponse(), newCount: 0 };
+  }
+
+  /**
+   * List a user's saved searches, newest first, with new job counts
+   */
+  async listSearches(userId: string): Promise<ISavedSearchSummary[]> {
+    const searches = await SavedSearch.find({ userId }).sort({ createdAt: -1 });
+
+    return Promise.all(searches.map(search => this.summarize(search.toResponse())));
+  }
+
+  /**
+   * Get one of the user's saved searches
+   * Returns null when it does not exist or belongs to someone else
+   */
+  async getSearch(userId: string, searchId: string): Promise<ISavedSearchSummary | null> {
+    if (!mongoose.Types.ObjectId.isValid(searchId)) {
+      return null;
+    }
+
+    const search = await SavedSearch.findOne({ _id: searchId, userId });
+
+    return search ? this.summarize(search.toResponse()) : null;
+  }
+
+  /**
+   * Rename a saved search, replace its filters or change its alerts
+   */
+  async updateSearch(
+    userId: string,
+    searchId: string,
+    update: ISavedSearchUpdate
+  ): Promise<ISavedSearchSummary | null> {
+    if (!mongoose.Types.ObjectId.isValid(searchId)) {
+      return null;
+    }
+
+    const search = await SavedSearch.findOneAndUpdate({ _id: searchId, userId }, update, {
+      new: true,
+    });
+
+    return search ? this.summarize(search.toResponse()) : null;
+  }
+
+  /**
+   * Delete a saved search
+   * Returns false when it does not exist or belongs to someone else
+   */
+  async deleteSearch(userId: string, searchId: string): Promise<boolean> {
+    if (!mongoose.Types.ObjectId.isValid(searchId)) {
+      return false;
+    }
+
+    const result = await SavedSearch.deleteOne({ _id: searchId, userId });
+
+    return result.deletedCount > 0;
+  }
+
+  /**
+   * Run a saved search, leaving out jobs and companies on the user's block list
+   * Viewing the first page marks its jobs as seen for the new job count.
+   */
+  async runSearch(
+    userId: string,
+    searchId: string,
+    options: SavedSearchRunOptions = {}
+  ): Promise<{ search: ISavedSearchSummary; jobs: PaginatedFilteredJobs } | null> {
+    if (!mongoose.Types.ObjectId.isValid(searchId)) {
+      return null;
+    }
+
+    const search = await SavedSearch.findOne({ _id: searchId, userId });
+    if (!search) {
+      return null;
+    }
+
+    const jobs = await filteredJobService.getJobs({
+      ...search.query,
+      ...options,
+      exclude: await JobBlockService.getExclusions(userId),
+    });
+
+    const firstPage = !options.cursor && (options.page ?? 1) === 1;
+    if (firstPage) {
+      search.lastViewedAt = new Date();
+      await SavedSearch.updateOne({ _id: search._id }, { lastViewedAt: search.lastViewedAt });
+    }
+
+    return { search: await this.summarize(search.toResponse()), jobs };
+  }
+
+  /**
+   * Add the new job count to a saved search
+   */
+  private async summarize(search: ISavedSearchResponse): Promise<ISavedSearchSummary> {
+    const newCount = await filteredJobService.countNewJobs(search.query, search.lastViewedAt);
+
+    return { ...search, newCount };
+  }
+}
+
+// Export singleton instance
+export default new SavedSearchService();
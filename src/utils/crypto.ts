@@ -0,0 +1,36 @@
+import crypto from 'crypto';
+
+/**
+ * Generate a cryptographically secure random token (hex encoded)
+ */
+export function generateSecureToken(bytes = 32): string {
+  return crypto.randomBytes(bytes).toString('hex');
+}
+
+/**
+ * Hash a token for storage
+ * Tokens are high-entropy, so a fast SHA-256 digest is sufficient
+ */
+export function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Hash a short one-time code for storage
+ * Six-digit codes are trivially brute-forced from a plain digest, so they are
+ * keyed with a server secret that is not stored in the database
+ */
+export function hashOneTimeCode(code: string): string {
+  const secret =
+    process.env.CODE_HASH_SECRET || process.env.JWT_SECRET || 'your-secret-key-change-in-production';
+  return crypto.createHmac('sha256', secret).update(code).digest('hex');
+}
+
+/**
+ * Compare two strings in constant time
+ */
+export function safeEqual(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && crypto.timingSafeEqual(bufferA, bufferB);
+}
@@ -0,0 +1,141 @@
+import mongoose from 'mongoose';
+
+/**
+ * Opaque keyset pagination cursors
+ *
+ * A cursor records the sort field value and _id of the last item on a page.
+ * The next page is everything after that position in (sortField, _id) order,
+ * so rows inserted while a user pages cannot cause duplicates or gaps.
+ */
+
+/**
+ * Error thrown for malformed cursors, or cursors issued for a different sort
+ */
+export class InvalidCursorError extends Error {
+  constructor(message = 'Invalid cursor') {
+    super(message);
+    this.name = 'InvalidCursorError';
+  }
+}
+
+/**
+ * Position decoded from a cursor
+ */
+export interface CursorPosition {
+  value: unknown;
+  id: mongoose.Types.ObjectId;
+}
+
+/**
+ * Serialized cursor payload (kept short: it travels in URLs)
+ */
+interface CursorPayload {
+  s: string; // Sort field
+  o: 1 | -1; // Sort order
+  v: unknown; // Sort value (dates as { d: ISO string })
+  i: string; // _id hex
+}
+
+/**
+ * Read a possibly nested field ("analysis.match_score") from a document
+ */
+function getField(doc: Record<string, unknown>, path: string): unknown {
+  return path
+    .split('.')
+    .reduce<unknown>(
+      (value, key) =>
+        value !== null && typeof value === 'object'
+          ? (value as Record<string, unknown>)[key]
+          : undefined,
+      doc
+    );
+}
+
+/**
+ * Create the cursor pointing just after a document
+ */
+export function encodeCursor(
+  doc: Record<string, unknown>,
+  sortBy: string,
+  sortOrder: 1 | -1
+): string {
+  const value = getField(doc, sortBy);
+  const payload: CursorPayload = {
+    s: sortBy,
+    o: sortOrder,
+    v: value instanceof Date ? { d: value.toISOString() } : (value ?? null),
+    i: String(doc._id),
+  };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+/**
+ * Decode a cursor, checking it was issued for the same sort
+ */
+export function decodeCursor(cursor: string, sortBy: string, sortOrder: 1 | -1): CursorPosition {
+  let payload: CursorPayload;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new InvalidCursorError();
+  }
+
+  if (!payload || typeof payload !== 'object' || !mongoose.Types.ObjectId.isValid(payload.i)) {
+    throw new InvalidCursorError();
+  }
+
+  if (payload.s !== sortBy || payload.o !== sortOrder) {
+    throw new InvalidCursorError('Cursor does not match the requested sort order');
+  }
+
+  // Only scalars and dates: any other object would be interpreted as query operators
+  let value: unknown = payload.v;
+  if (value !== null && typeof value === 'object') {
+    const raw = value as { d?: unknown };
+    value = typeof raw.d === 'string' ? new Date(raw.d) : undefined;
+    if (!(value instanceof Date) || isNaN(value.getTime())) {
+      throw new InvalidCursorError();
+    }
+  } else if (!['string', 'number', 'boolean'].includes(typeof value) && value !== null) {
+    throw new InvalidCursorError();
+  }
+
+  return { value, id: new mongoose.Types.ObjectId(payload.i) };
+}
+
+/**
+ * Build the filter selecting documents after a cursor position
+ * Must be combined with a sort of { [sortBy]: sortOrder, _id: sortOrder }.
+ * Missing/null values sort lowest in MongoDB, which the null branches mirror.
+ */
+export function buildCursorFilter(
+  position: CursorPosition,
+  sortBy: string,
+  sortOrder: 1 | -1
+): Record<string, unknown> {
+  const after = sortOrder === 1 ? '$gt' : '$lt';
+
+  if (sortBy === '_id') {
+    return { _id: { [after]: position.id } };
+  }
+
+  const sameValueLaterId = { [sortBy]: position.value, _id: { [after]: position.id } };
+
+  if (position.value === null) {
+    // Nulls come first ascending (non-null values follow) and last descending
+    return sortOrder === 1
+      ? { $or: [sameValueLaterId, { [sortBy]: { $ne: null } }] }
+      : sameValueLaterId;
+  }
+
+  const branches: Record<string, unknown>[] = [
+    { [sortBy]: { [after]: position.value } },
+    sameValueLaterId,
+  ];
+
+  if (sortOrder === -1) {
+    branches.push({ [sortBy]: null });
+  }
+
+  return { $or: branches };
+}
@@ -0,0 +1,322 @@
+/**
+ * Duplicate listing detection
+ *
+ * The same role is often posted on several platforms with different posting
+ * ids. Listings are only compared within blocks of the same normalized
+ * company; within a block two listings are duplicates when their locations
+ * agree, their titles share most words, and their descriptions are similar
+ * by a MinHash estimate of word-shingle Jaccard similarity.
+ */
+
+/**
+ * Listing fields used for duplicate detection
+ */
+export interface DedupCandidate {
+  id: string;
+  company: string;
+  title: string;
+  location: string;
+  description: string;
+}
+
+/**
+ * Words per description shingle
+ */
+const SHINGLE_SIZE = 3;
+
+/**
+ * Hash functions per MinHash signature
+ */
+const SIGNATURE_SIZE = 64;
+
+/**
+ * Minimum title word overlap (Jaccard) for duplicates
+ */
+const TITLE_SIMILARITY = 0.75;
+
+/**
+ * Minimum estimated description similarity (Jaccard of shingles) for duplicates
+ */
+const DESCRIPTION_SIMILARITY = 0.5;
+
+/**
+ * Legal and filler words that vary between platforms for the same company
+ */
+const COMPANY_STOP_WORDS = new Set([
+  'pty',
+  'ltd',
+  'limited',
+  'inc',
+  'llc',
+  'plc',
+  'corp',
+  'corporation',
+  'co',
+  'company',
+  'group',
+  'holdings',
+  'the',
+  'australia',
+]);
+
+/**
+ * Title abbreviations spelled out so "Sr. Engineer" matches "Senior Engineer"
+ */
+const TITLE_ABBREVIATIONS: Record<string, string> = {
+  sr: 'senior',
+  snr: 'senior',
+  jr: 'junior',
+  jnr: 'junior',
+  mgr: 'manager',
+  eng: 'engineer',
+  dev: 'developer',
+};
+
+/**
+ * State names and codes left out of locations ("Sydney NSW" vs "Sydney, New South Wales")
+ */
+const LOCATION_STOP_WORDS = new Set([
+  'nsw',
+  'vic',
+  'qld',
+  'wa',
+  'sa',
+  'tas',
+  'act',
+  'nt',
+  'new',
+  'south',
+  'wales',
+  'victoria',
+  'queensland',
+  'western',
+  'tasmania',
+  'australian',
+  'capital',
+  'territory',
+  'northern',
+  'australia',
+]);
+
+/**
+ * Lowercase words of a text
+ */
+function words(text: string): string[] {
+  return (text || '').toLowerCase().replace(/&/g, ' and ').match(/[a-z0-9]+/g) || [];
+}
+
+/**
+ * Normalize a company name for blocking
+ */
+export function normalizeCompany(name: string): string {
+  return words(name)
+    .filter(word => !COMPANY_STOP_WORDS.has(word))
+    .join(' ');
+}
+
+/**
+ * Normalize a job title to its set of words
+ * Bracketed notes such as "(Remote)" or "[Contract]" are ignored
+ */
+export function titleWords(title: string): Set<string> {
+  const stripped = (title || '').replace(/\([^)]*\)|\[[^\]]*\]/g, ' ');
+  return new Set(words(stripped).map(word => TITLE_ABBREVIATIONS[word] || word));
+}
+
+/**
+ * Normalize a location to its city part
+ */
+export function normalizeLocation(location: string): string {
+  return words(location)
+    .filter(word => !LOCATION_STOP_WORDS.has(word))
+    .join(' ');
+}
+
+/**
+ * Jaccard similarity of two sets
+ */
+export function jaccard<T>(a: Set<T>, b: Set<T>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+  let shared = 0;
+  for (const item of a) {
+    if (b.has(item)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * 32-bit avalanche mix (MurmurHash3 finalizer)
+ */
+function mix32(value: number): number {
+  let hash = value;
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+}
+
+/**
+ * Word shingles of a text (the whole text when it is shorter than a shingle)
+ */
+export function shingles(text: string): Set<string> {
+  const tokens = words(text);
+  const result = new Set<string>();
+  if (tokens.length === 0) return result;
+  if (tokens.length < SHINGLE_SIZE) {
+    result.add(tokens.join(' '));
+    return result;
+  }
+  for (let i = 0; i <= tokens.length - SHINGLE_SIZE; i++) {
+    result.add(tokens.slice(i, i + SHINGLE_SIZE).join(' '));
+  }
+  return result;
+}
+
+/**
+ * MinHash signature of a text's shingles, or null for empty texts
+ * The hash functions are derived from two base hashes (h1 + i * h2), which
+ * behaves like independent hash functions for MinHash purposes.
+ */
+export function minHashSignature(text: string): Uint32Array | null {
+  const textShingles = shingles(text);
+  if (textShingles.size === 0) return null;
+
+  const signature = new Uint32Array(SIGNATURE_SIZE).fill(0xffffffff);
+  for (const shingle of textShingles) {
+    const h1 = fnv1a(shingle);
+    const h2 = mix32(h1) | 1;
+    for (let i = 0; i < SIGNATURE_SIZE; i++) {
+      const hash = (h1 + Math.imul(i, h2)) >>> 0;
+      if (hash < signature[i]) signature[i] = hash;
+    }
+  }
+  return signature;
+}
+
+/**
+ * Estimate the Jaccard similarity of two texts from their MinHash signatures
+ */
+export function signatureSimilarity(a: Uint32Array, b: Uint32Array): number {
+  let equal = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === b[i]) equal++;
+  }
+  return equal / a.length;
+}
+
+/**
+ * Listing prepared for pairwise comparison
+ */
+interface PreparedCandidate {
+  id: string;
+  title: Set<string>;
+  location: string;
+  description: string;
+  signature?: Uint32Array | null; // Computed on first comparison
+}
+
+/**
+ * Decide whether two listings of the same company are the same role
+ * Listings without a description only match on an identical title.
+ */
+function isDuplicate(a: PreparedCandidate, b: PreparedCandidate): boolean {
+  if (a.location && b.location && a.location !== b.location) return false;
+
+  const titleSimilarity = jaccard(a.title, b.title);
+  if (titleSimilarity < TITLE_SIMILARITY) return false;
+
+  if (a.signature === undefined) a.signature = minHashSignature(a.description);
+  if (b.signature === undefined) b.signature = minHashSignature(b.description);
+  if (!a.signature || !b.signature) return titleSimilarity === 1;
+
+  return signatureSimilarity(a.signature, b.signature) >= DESCRIPTION_SIMILARITY;
+}
+
+/**
+ * Group candidates by normalized company (listings without a company are left out)
+ */
+export function blockByCompany<T extends Pick<DedupCandidate, 'company'>>(
+  candidates: T[]
+): Map<string, T[]> {
+  const blocks = new Map<string, T[]>();
+  for (const candidate of candidates) {
+    const key = normalizeCompany(candidate.company);
+    if (!key) continue;
+    const block = blocks.get(key);
+    if (block) block.push(candidate);
+    else blocks.set(key, [candidate]);
+  }
+  return blocks;
+}
+
+/**
+ * Cluster duplicate listings
+ * Returns the cluster id of every listing that has a duplicate; the cluster id
+ * is the smallest member id, so it stays the same while that listing exists.
+ * Duplicates are transitive: if A matches B and B matches C, all three cluster.
+ */
+export function clusterDuplicates(candidates: DedupCandidate[]): Map<string, string> {
+  const parent = new Map<string, string>();
+  const find = (id: string): string => {
+    let root = id;
+    while (parent.get(root) !== root) root = parent.get(root) as string;
+    // Path compression
+    let node = id;
+    while (node !== root) {
+      const next = parent.get(node) as string;
+      parent.set(node, root);
+      node = next;
+    }
+    return root;
+  };
+
+  for (const block of blockByCompany(candidates).values()) {
+    if (block.length < 2) continue;
+
+    const prepared: PreparedCandidate[] = block.map(candidate => ({
+      id: candidate.id,
+      title: titleWords(candidate.title),
+      location: normalizeLocation(candidate.location),
+      description: candidate.description,
+    }));
+    for (const candidate of prepared) parent.set(candidate.id, candidate.id);
+
+    for (let i = 0; i < prepared.length; i++) {
+      for (let j = i + 1; j < prepared.length; j++) {
+        const rootA = find(prepared[i].id);
+        const rootB = find(prepared[j].id);
+        if (rootA === rootB || !isDuplicate(prepared[i], prepared[j])) continue;
+        // Smallest id becomes the root, so it is the cluster id
+        if (rootA < rootB) parent.set(rootB, rootA);
+        else parent.set(rootA, rootB);
+      }
+    }
+  }
+
+  const members = new Map<string, string[]>();
+  for (const id of parent.keys()) {
+    const root = find(id);
+    members.set(root, [...(members.get(root) || []), id]);
+  }
+
+  const clusters = new Map<string, string>();
+  for (const [root, ids] of members) {
+    if (ids.length < 2) continue;
+    for (const id of ids) clusters.set(id, root);
+  }
+  return clusters;
+}
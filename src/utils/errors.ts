@@ -0,0 +1,23 @@
+import { mongo } from 'mongoose';
+
+/**
+ * Error for expected failures of a user-facing feature (limits, conflicts)
+ * Controllers answer with the status and code; the message is shown to the user.
+ */
+export class ServiceError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public status = 400
+  ) {
+    super(message);
+    this.name = 'ServiceError';
+  }
+}
+
+/**
+ * Whether an error is a MongoDB unique index violation
+ */
+export function isDuplicateKeyError(error: unknown): boolean {
+  return error instanceof mongo.MongoServerError && error.code === 11000;
+}
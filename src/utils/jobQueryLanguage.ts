@@ -0,0 +1,301 @@
+import { FilteredJobQuery, JOB_PLATFORMS } from '../models/FilteredJob';
+
+/**
+ * Job search query language
+ *
+ * A compact syntax for power users, e.g.
+ *   title:"data engineer" company:atlassian score>=70 platform:seek,linkedin remote:true posted:<7d
+ *
+ * Field clauses become the same FilteredJobQuery fields the API parameters
+ * set, so FilteredJobService builds one filter either way. Words and
+ * "phrases" outside field clauses (including -exclusions) become the
+ * keyword search.
+ */
+
+/**
+ * Comparison operators
+ */
+type Operator = ':' | '>' | '>=' | '<' | '<=';
+
+/**
+ * Query fields a query string can set
+ */
+export type JobQueryFields = Pick<
+  FilteredJobQuery,
+  | 'q'
+  | 'title'
+  | 'company'
+  | 'location'
+  | 'platform'
+  | 'state'
+  | 'employment_type'
+  | 'work_arrangement'
+  | 'remote'
+  | 'min_score'
+  | 'min_score_exclusive'
+  | 'max_score'
+  | 'max_score_exclusive'
+  | 'date'
+  | 'date_from'
+  | 'date_to'
+>;
+
+/**
+ * Error thrown for query strings that cannot be parsed
+ * position is the offset of the offending clause in the input.
+ */
+export class JobQuerySyntaxError extends Error {
+  constructor(
+    message: string,
+    public position: number
+  ) {
+    super(message);
+    this.name = 'JobQuerySyntaxError';
+  }
+}
+
+/**
+ * Field clause as written in the query
+ */
+interface Clause {
+  field: string;
+  operator: Operator;
+  value: string;
+  position: number;
+}
+
+type FieldKind = 'text' | 'list' | 'boolean' | 'number' | 'date';
+
+/**
+ * Supported fields and the query field they set
+ */
+const FIELDS: Record<string, { kind: FieldKind; key?: keyof JobQueryFields }> = {
+  title: { kind: 'text', key: 'title' },
+  company: { kind: 'text', key: 'company' },
+  location: { kind: 'text', key: 'location' },
+  platform: { kind: 'list', key: 'platform' },
+  state: { kind: 'list', key: 'state' },
+  type: { kind: 'list', key: 'employment_type' },
+  arrangement: { kind: 'list', key: 'work_arrangement' },
+  remote: { kind: 'boolean', key: 'remote' },
+  score: { kind: 'number' },
+  posted: { kind: 'date' },
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// field, operator, then a quoted or bare value
+const CLAUSE_PATTERN = /^([a-z_]+)(:(?:>=|<=|>|<)?|>=|<=|>|<)("(?:[^"]*)"?|\S*)$/i;
+
+// A URL ("https://acme.com") looks like a field clause but is a keyword
+const URL_PATTERN = /^-?[a-z][a-z0-9+.-]*:\/\//i;
+
+// A token: an optional "-", then quoted text or a run of characters (quotes may follow a field)
+const TOKEN_PATTERN = /-?"[^"]*"?|[^\s"]+(?:"[^"]*"?)?/g;
+
+/**
+ * Strip the quotes around a value
+ */
+function unquote(value: string): string {
+  return value.startsWith('"') ? value.replace(/^"|"$/g, '') : value;
+}
+
+/**
+ * Format a date as YYYY-MM-DD (UTC)
+ */
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Shift a YYYY-MM-DD date by whole days
+ */
+function addDays(date: string, days: number): string {
+  return formatDate(new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY));
+}
+
+/**
+ * Split a query string into field clauses and keyword search text
+ */
+function tokenize(input: string): { clauses: Clause[]; keywords: string[] } {
+  const clauses: Clause[] = [];
+  const keywords: string[] = [];
+
+  for (const match of input.matchAll(TOKEN_PATTERN)) {
+    const token = match[0];
+    const position = match.index ?? 0;
+    const clause = URL_PATTERN.test(token) ? null : token.replace(/^-/, '').match(CLAUSE_PATTERN);
+
+    if (!clause) {
+      keywords.push(token);
+      continue;
+    }
+
+    if (token.startsWith('-')) {
+      throw new JobQuerySyntaxError(`Field filters cannot be negated: "${token}"`, position);
+    }
+
+    const [, field, rawOperator, value] = clause;
+    const operator = (rawOperator.length > 1 && rawOperator.startsWith(':')
+      ? rawOperator.slice(1)
+      : rawOperator) as Operator;
+
+    clauses.push({ field: field.toLowerCase(), operator, value: unquote(value), position });
+  }
+
+  return { clauses, keywords };
+}
+
+/**
+ * Resolve a posted: value to a date range
+ * Absolute dates compare as written; ages ("7d", "2w") compare by age, so
+ * posted:<7d means newer than seven days.
+ */
+function parsePosted(clause: Clause, now: Date): Pick<JobQueryFields, 'date' | 'date_from' | 'date_to'> {
+  const today = formatDate(now);
+  let date: string;
+  let operator = clause.operator;
+
+  const age = clause.value.match(/^(\d+)([dw])$/i);
+  if (age) {
+    const days = parseInt(age[1], 10) * (age[2].toLowerCase() === 'w' ? 7 : 1);
+    date = addDays(today, -days);
+    // Older means earlier, so age comparisons flip
+    const flipped: Record<Operator, Operator> = { ':': ':', '>': '<', '>=': '<=', '<': '>', '<=': '>=' };
+    operator = flipped[operator];
+  } else if (/^\d{4}-\d{2}-\d{2}$/.test(clause.value) && !isNaN(Date.parse(clause.value))) {
+    date = clause.value;
+  } else {
+    throw new JobQuerySyntaxError(
+      `Invalid date "${clause.value}" (use YYYY-MM-DD or an age like 7d or 2w)`,
+      clause.position
+    );
+  }
+
+  switch (operator) {
+    case ':':
+      return { date };
+    case '>':
+      return { date_from: addDays(date, 1) };
+    case '>=':
+      return { date_from: date };
+    case '<':
+      return { date_to: addDays(date, -1) };
+    case '<=':
+      return { date_to: date };
+  }
+}
+
+/**
+ * Resolve a score clause to score bounds
+ */
+function parseScore(clause: Clause): JobQueryFields {
+  const score = Number(clause.value);
+  if (clause.value === '' || !Number.isFinite(score)) {
+    throw new JobQuerySyntaxError(`Invalid score "${clause.value}"`, clause.position);
+  }
+
+  switch (clause.operator) {
+    case ':':
+      return { min_score: score, max_score: score };
+    case '>':
+      return { min_score: score, min_score_exclusive: true };
+    case '>=':
+      return { min_score: score };
+    case '<':
+      return { max_score: score, max_score_exclusive: true };
+    case '<=':
+      return { max_score: score };
+  }
+}
+
+/**
+ * Resolve a clause to the query fields it sets
+ */
+function parseClause(clause: Clause, now: Date): JobQueryFields {
+  const definition = FIELDS[clause.field];
+  if (!definition) {
+    throw new JobQuerySyntaxError(
+      `Unknown field "${clause.field}" (expected one of ${Object.keys(FIELDS).join(', ')})`,
+      clause.position
+    );
+  }
+
+  if (definition.kind === 'number') {
+    return parseScore(clause);
+  }
+  if (definition.kind === 'date') {
+    return parsePosted(clause, now);
+  }
+
+  if (clause.operator !== ':') {
+    throw new JobQuerySyntaxError(
+      `Field "${clause.field}" does not support "${clause.operator}"`,
+      clause.position
+    );
+  }
+  if (!clause.value) {
+    throw new JobQuerySyntaxError(`Missing value for "${clause.field}"`, clause.position);
+  }
+
+  const key = definition.key as keyof JobQueryFields;
+
+  switch (definition.kind) {
+    case 'text':
+      return { [key]: clause.value };
+    case 'boolean': {
+      if (!['true', 'false'].includes(clause.value.toLowerCase())) {
+        throw new JobQuerySyntaxError(
+          `Field "${clause.field}" must be true or false`,
+          clause.position
+        );
+      }
+      return { [key]: clause.value.toLowerCase() === 'true' };
+    }
+    default: {
+      const values = clause.value
+        .split(',')
+        .map(value => value.trim())
+        .filter(Boolean);
+      if (key === 'platform') {
+        const unknown = values.find(value => !(JOB_PLATFORMS as readonly string[]).includes(value));
+        if (unknown) {
+          throw new JobQuerySyntaxError(
+            `Unknown platform "${unknown}" (expected one of ${JOB_PLATFORMS.join(', ')})`,
+            clause.position
+          );
+        }
+      }
+      return { [key]: values };
+    }
+  }
+}
+
+/**
+ * Parse a query string into job query fields
+ * Throws JobQuerySyntaxError for unknown fields, bad values, or a field set twice.
+ */
+export function parseJobQuery(input: string, now: Date = new Date()): JobQueryFields {
+  const { clauses, keywords } = tokenize(input);
+  const result: JobQueryFields = {};
+
+  for (const clause of clauses) {
+    const fields = parseClause(clause, now);
+
+    for (const [key, value] of Object.entries(fields)) {
+      if (key in result) {
+        throw new JobQuerySyntaxError(
+          `"${clause.field}" sets a condition given earlier in the query`,
+          clause.position
+        );
+      }
+      (result as Record<string, unknown>)[key] = value;
+    }
+  }
+
+  if (keywords.length > 0) {
+    result.q = keywords.join(' ');
+  }
+
+  return result;
+}
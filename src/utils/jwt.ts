@@ -1,4 +1,5 @@
 import jwt from 'jsonwebtoken';
+import type { UserRole } from '../models/User';
 
 /**
  * JWT payload interface
@@ -6,6 +7,29 @@ import jwt from 'jsonwebtoken';
 export interface IJWTPayload {
   userId: string;
   email: string;
+  role?: UserRole; // Tokens issued before roles existed have no role
+  sessionId?: string; // Login session the token belongs to
+  iat?: number; // Issued at (seconds), set by jsonwebtoken
+}
+
+/**
+ * Two-factor login challenge payload
+ * Issued after the first login step; only usable to complete the second step
+ */
+export interface IChallengePayload {
+  userId: string;
+  purpose: '2fa';
+}
+
+/**
+ * Job alert unsubscribe payload
+ * Embedded in alert emails; only usable to turn off alerts for one saved
+ * search, or for all of the user's saved searches when savedSearchId is absent
+ */
+export interface IUnsubscribePayload {
+  userId: string;
+  savedSearchId?: string;
+  purpose: 'unsubscribe';
 }
 
 /**
@@ -13,22 +37,103 @@ export interface IJWTPayload {
  */
 export function generateToken(payload: IJWTPayload): string {
   const secret = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
-  const expiresIn = process.env.JWT_EXPIRES_IN || '7d';
+  const expiresIn = process.env.JWT_EXPIRES_IN || '15m';
 
   return jwt.sign(payload, secret, { expiresIn } as jwt.SignOptions);
 }
 
+/**
+ * Get refresh token lifetime in milliseconds
+ */
+export function getRefreshTokenTTL(): number {
+  const days = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30', 10);
+  return days * 24 * 60 * 60 * 1000;
+}
+
 /**
  * Verify JWT token
  */
 export function verifyToken(token: string): IJWTPayload {
   const secret = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
 
+  let payload: IJWTPayload & { purpose?: string };
   try {
-    return jwt.verify(token, secret) as IJWTPayload;
+    payload = jwt.verify(token, secret) as IJWTPayload & { purpose?: string };
   } catch (error) {
     throw new Error('Invalid or expired token');
   }
+
+  // Purpose-bound tokens (e.g. 2FA challenges) are not access tokens
+  if (payload.purpose) {
+    throw new Error('Invalid or expired token');
+  }
+
+  return payload;
+}
+
+/**
+ * Generate a short-lived two-factor login challenge token
+ */
+export function generateChallengeToken(userId: string): string {
+  const secret = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
+  const payload: IChallengePayload = { userId, purpose: '2fa' };
+
+  return jwt.sign(payload, secret, { expiresIn: '5m' });
+}
+
+/**
+ * Verify a two-factor login challenge token
+ */
+export function verifyChallengeToken(token: string): IChallengePayload {
+  const secret = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
+
+  let payload: IChallengePayload;
+  try {
+    payload = jwt.verify(token, secret) as IChallengePayload;
+  } catch (error) {
+    throw new Error('Invalid or expired challenge token');
+  }
+
+  if (payload.purpose !== '2fa') {
+    throw new Error('Invalid or expired challenge token');
+  }
+
+  return payload;
+}
+
+/**
+ * Generate a job alert unsubscribe token
+ * It does not expire, so links in old alert emails keep working
+ */
+export function generateUnsubscribeToken(userId: string, savedSearchId?: string): string {
+  const secret = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
+  const payload: IUnsubscribePayload = {
+    userId,
+    ...(savedSearchId && { savedSearchId }),
+    purpose: 'unsubscribe',
+  };
+
+  return jwt.sign(payload, secret);
+}
+
+/**
+ * Verify a job alert unsubscribe token
+ */
+export function verifyUnsubscribeToken(token: string): IUnsubscribePayload {
+  const secret = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
+
+  let payload: IUnsubscribePayload;
+  try {
+    payload = jwt.verify(token, secret) as IUnsubscribePayload;
+  } catch (error) {
+    throw new Error('Invalid unsubscribe token');
+  }
+
+  if (payload.purpose !== 'unsubscribe') {
+    throw new Error('Invalid unsubscribe token');
+  }
+
+  return payload;
 }
 
 /**
@@ -0,0 +1,6 @@
+/**
+ * Escape a string for literal use inside a regular expression
+ */
+export function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,277 @@
+/**
+ * Salary extraction from job titles and descriptions
+ *
+ * Finds advertised pay such as "$120k - $140k + super", "$850 per day" or
+ * "AUD 95,000 p.a. inc. super", and normalizes it to an annual AUD range
+ * excluding superannuation so listings can be filtered and sorted by pay.
+ * Amounts without a pay signal (a range, a period, a "k" or a nearby word
+ * like "salary") are ignored, so "$5,000 sign-on bonus" is not a salary.
+ */
+
+/**
+ * Bump when the parsing rules change, so cached results are recomputed
+ */
+export const SALARY_PARSER_VERSION = 2;
+
+export const SALARY_PERIODS = ['hour', 'day', 'week', 'month', 'year'] as const;
+
+export type SalaryPeriod = (typeof SALARY_PERIODS)[number];
+
+export const SALARY_CURRENCIES = ['AUD', 'NZD', 'USD', 'GBP', 'EUR'] as const;
+
+export type SalaryCurrency = (typeof SALARY_CURRENCIES)[number];
+
+/**
+ * Extracted salary (stored on filtered jobs)
+ * min/max are as advertised; one of them may be missing ("up to $150k");
+ * annual_min/annual_max are annual AUD excluding super, missing with the same
+ * advertised bound.
+ */
+export interface JobSalary {
+  min?: number;
+  max?: number;
+  currency: SalaryCurrency;
+  period: SalaryPeriod;
+  includes_super?: boolean; // Unknown when the ad does not say
+  annual_min?: number;
+  annual_max?: number;
+}
+
+/**
+ * Paid time per year used to annualize rates (38-hour weeks, 5-day weeks)
+ */
+const PERIODS_PER_YEAR: Record<SalaryPeriod, number> = {
+  hour: 38 * 52,
+  day: 5 * 52,
+  week: 52,
+  month: 12,
+  year: 1,
+};
+
+/**
+ * Approximate exchange rates to AUD; only precise enough for filtering
+ */
+const RATES_TO_AUD: Record<SalaryCurrency, number> = {
+  AUD: 1,
+  NZD: 0.92,
+  USD: 1.52,
+  GBP: 1.95,
+  EUR: 1.65,
+};
+
+/**
+ * Superannuation guarantee rate, removed from packages that include super
+ */
+const SUPER_GUARANTEE_RATE = 0.12;
+
+/**
+ * Plausible annual AUD pay; anything outside is not a salary
+ */
+const MIN_ANNUAL_AUD = 15000;
+const MAX_ANNUAL_AUD = 1500000;
+
+/**
+ * How far around an amount to look for its period, super and context words
+ */
+const CONTEXT_BEFORE = 40;
+const CONTEXT_AFTER = 50;
+
+const CURRENCY_PREFIX = '(?:(AU|A|NZ|US)\\$|(\\$)|(£)|(€)|\\b(AUD|NZD|USD|GBP|EUR)\\s?)';
+const NUMBER = '(\\d{1,3}(?:,\\d{3})+|\\d+)(\\.\\d{1,2})?';
+const MULTIPLIER = '(?:\\s?(k|K|m|M|mil|million|bn|billion)\\b)?';
+
+/**
+ * An amount with a currency: groups 1-5 currency, 6 number, 7 decimals, 8 multiplier
+ */
+const MONEY_PATTERN = new RegExp(`${CURRENCY_PREFIX}${NUMBER}${MULTIPLIER}`, 'g');
+
+/**
+ * The upper end of a range right after an amount ("- $140k", "to 140,000")
+ * Groups 1-5 currency, 6 number, 7 decimals, 8 multiplier
+ */
+const RANGE_END_PATTERN = new RegExp(
+  `^\\s*(?:-|–|—|to)\\s*(?:${CURRENCY_PREFIX})?${NUMBER}${MULTIPLIER}`,
+  'i'
+);
+
+// "p.m." is left out for months: it is more often a time of day
+const PERIOD_PATTERNS: [SalaryPeriod, RegExp][] = [
+  ['hour', /(?:\b(?:per|an?)\s+|\/\s?)(?:hour|hr)\b|\bp\.?\s?hr?\b|\bhourly\b/i],
+  ['day', /(?:\b(?:per|a)\s+|\/\s?)day\b|\bp\.?\s?d\b|\bdaily\b|\bday rate\b/i],
+  ['week', /(?:\b(?:per|a)\s+|\/\s?)(?:week|wk)\b|\bp\.?\s?w\b|\bweekly\b/i],
+  ['month', /(?:\b(?:per|a)\s+|\/\s?)(?:month|mth)\b|\bmonthly\b/i],
+  ['year', /(?:\b(?:per|a)\s+|\/\s?)(?:annum|year|yr)\b|\bp\.?\s?a\b|\bannual(?:ly)?\b|\bsalary\b/i],
+];
+
+// Packages include super, whether they are mentioned before or after the amount
+const PACKAGE_PATTERN = /\bpackage\b|\bTRP\b|total remuneration/i;
+
+const INCLUDES_SUPER_PATTERN = new RegExp(
+  `\\b(?:incl?(?:uding|usive of|\\.)?|inc\\.?)\\s*(?:of\\s*)?(?:\\d+(?:\\.\\d+)?%\\s*)?super|${PACKAGE_PATTERN.source}`,
+  'i'
+);
+
+const EXCLUDES_SUPER_PATTERN =
+  /(?:\+|\bplus|\bexcl?(?:uding|\.)?|\bex\.?)\s*(?:\d+(?:\.\d+)?%\s*)?super/i;
+
+const CONTEXT_PATTERN =
+  /\b(?:salary|salaries|rate|pay|paying|remuneration|package|compensation|base|super|superannuation|ote|earn|earning)\b/i;
+
+/**
+ * Currency of a money match
+ */
+function currencyOf(groups: (string | undefined)[]): SalaryCurrency {
+  const [prefix, , pound, euro, code] = groups;
+  if (code) return code.toUpperCase() as SalaryCurrency;
+  if (pound) return 'GBP';
+  if (euro) return 'EUR';
+  if (prefix === 'NZ') return 'NZD';
+  if (prefix === 'US') return 'USD';
+  // "$", "A$" and "AU$"
+  return 'AUD';
+}
+
+/**
+ * Numeric value of a number match, or null for millions and billions
+ */
+function amountOf(
+  number: string,
+  decimals: string | undefined,
+  multiplier: string | undefined
+): number | null {
+  const value = parseFloat(number.replace(/,/g, '') + (decimals || ''));
+  if (!multiplier) return value;
+  return multiplier.toLowerCase() === 'k' ? value * 1000 : null;
+}
+
+/**
+ * Period stated next to an amount
+ * Only the rest of the amount's sentence counts, so "$120k. Daily standups" is yearly.
+ */
+function statedPeriod(before: string, after: string): SalaryPeriod | undefined {
+  const clause = after.split(/[;!?\n]|\.(?:\s|$)/)[0];
+  for (const [period, pattern] of PERIOD_PATTERNS) {
+    // "salary" before an amount only says it is pay, not how often
+    if (pattern.test(clause) || (period !== 'year' && pattern.test(before))) {
+      return period;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Guess the period of an amount from its size
+ */
+function inferredPeriod(amount: number): SalaryPeriod | undefined {
+  if (amount >= 20000) return 'year';
+  if (amount >= 200 && amount <= 3000) return 'day';
+  if (amount >= 15 && amount < 200) return 'hour';
+  return undefined;
+}
+
+/**
+ * Whether the text around an amount says super is included, excluded or neither
+ */
+function superInclusion(before: string, after: string): boolean | undefined {
+  const included = after.search(INCLUDES_SUPER_PATTERN);
+  const excluded = after.search(EXCLUDES_SUPER_PATTERN);
+  if (included === -1 && excluded === -1) {
+    return PACKAGE_PATTERN.test(before) ? true : undefined;
+  }
+  if (excluded === -1) return true;
+  if (included === -1) return false;
+  return included < excluded;
+}
+
+/**
+ * Convert an advertised amount to annual AUD excluding super
+ */
+function toAnnualAud(
+  amount: number,
+  period: SalaryPeriod,
+  currency: SalaryCurrency,
+  includesSuper: boolean | undefined
+): number {
+  const annual = amount * PERIODS_PER_YEAR[period] * RATES_TO_AUD[currency];
+  return Math.round(includesSuper ? annual / (1 + SUPER_GUARANTEE_RATE) : annual);
+}
+
+/**
+ * Extract the first plausible salary from a text
+ */
+function parseText(text: string): JobSalary | null {
+  MONEY_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = MONEY_PATTERN.exec(text))) {
+    const currency = currencyOf(match.slice(1, 6));
+    let first = amountOf(match[6], match[7], match[8]);
+    if (first === null) continue;
+
+    let end = match.index + match[0].length;
+    let second: number | null = null;
+    let hasK = match[8]?.toLowerCase() === 'k';
+
+    const range = RANGE_END_PATTERN.exec(text.slice(end));
+    if (range) {
+      second = amountOf(range[6], range[7], range[8]);
+      if (second === null) continue;
+      // "$120-140k" means 120k to 140k
+      if (range[8]?.toLowerCase() === 'k' && !hasK && first < 1000) {
+        first *= 1000;
+      }
+      hasK = hasK || range[8]?.toLowerCase() === 'k';
+      end += range[0].length;
+      // Skip the range end so it is not read as an amount of its own
+      MONEY_PATTERN.lastIndex = end;
+    }
+
+    const before = text.slice(Math.max(0, match.index - CONTEXT_BEFORE), match.index);
+    const after = text.slice(end, end + CONTEXT_AFTER);
+
+    // "Up to $150k" has no lower end; "from $90k" has no upper end
+    const upTo = /\bup to\s*$/i.test(before);
+    const from = /\b(?:from|starting (?:at|from)|min(?:imum)?)\s*$/i.test(before);
+
+    const explicitPeriod = statedPeriod(before, after);
+    const includesSuper = superInclusion(before, after);
+    const hasSignal =
+      second !== null ||
+      explicitPeriod !== undefined ||
+      hasK ||
+      includesSuper !== undefined ||
+      CONTEXT_PATTERN.test(before) ||
+      CONTEXT_PATTERN.test(after);
+    if (!hasSignal) continue;
+
+    const low = second !== null ? Math.min(first, second) : first;
+    const high = second !== null ? Math.max(first, second) : first;
+    const period = explicitPeriod ?? (hasK ? 'year' : inferredPeriod(high));
+    if (!period) continue;
+
+    const annualMin = toAnnualAud(low, period, currency, includesSuper);
+    const annualMax = toAnnualAud(high, period, currency, includesSuper);
+    if (annualMin < MIN_ANNUAL_AUD || annualMax > MAX_ANNUAL_AUD) continue;
+
+    const open = from && second === null;
+    return {
+      ...(!upTo && { min: low }),
+      ...(!open && { max: high }),
+      currency,
+      period,
+      ...(includesSuper !== undefined && { includes_super: includesSuper }),
+      ...(!upTo && { annual_min: annualMin }),
+      ...(!open && { annual_max: annualMax }),
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Extract a job's salary, preferring the title over the description
+ * Returns null when neither advertises pay
+ */
+export function parseSalary(title: string, description: string): JobSalary | null {
+  return parseText(title || '') ?? parseText(description || '');
+}
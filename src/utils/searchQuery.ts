@@ -0,0 +1,171 @@
+import { escapeRegExp } from './regex';
+import { escapeHtml } from './html';
+
+/**
+ * Keyword search query parsing and result highlighting
+ *
+ * Supports bare terms, "quoted phrases" and -negated terms or phrases,
+ * e.g. `"react native" -php`. Parsed queries are turned into a MongoDB
+ * $text search string, so user input never reaches a RegExp unescaped.
+ */
+
+/**
+ * Parsed search query
+ */
+export interface ParsedSearchQuery {
+  terms: string[];
+  phrases: string[];
+  excludedTerms: string[];
+  excludedPhrases: string[];
+}
+
+/**
+ * Maximum snippet length, in characters of source text
+ */
+const SNIPPET_LENGTH = 200;
+
+/**
+ * Strip characters that carry meaning in $text search strings
+ */
+function cleanToken(value: string): string {
+  return value.replace(/["\\]/g, '').replace(/^-+/, '').trim();
+}
+
+/**
+ * Parse a user search query into terms, phrases and exclusions
+ * An unterminated quote is treated as a phrase running to the end of the input.
+ */
+export function parseSearchQuery(input: string): ParsedSearchQuery {
+  const parsed: ParsedSearchQuery = {
+    terms: [],
+    phrases: [],
+    excludedTerms: [],
+    excludedPhrases: [],
+  };
+  const pattern = /(-?)"([^"]*)"?|(\S+)/g;
+
+  for (const match of input.matchAll(pattern)) {
+    const [, negated, phrase, word] = match;
+
+    if (phrase !== undefined) {
+      const words = phrase.split(/\s+/).map(cleanToken).filter(Boolean);
+      if (words.length === 0) continue;
+      // A single quoted word is just a term
+      if (words.length === 1) {
+        (negated ? parsed.excludedTerms : parsed.terms).push(words[0]);
+      } else {
+        (negated ? parsed.excludedPhrases : parsed.phrases).push(words.join(' '));
+      }
+      continue;
+    }
+
+    const term = cleanToken(word);
+    if (!term) continue;
+    (word.startsWith('-') ? parsed.excludedTerms : parsed.terms).push(term);
+  }
+
+  return parsed;
+}
+
+/**
+ * Whether the query has anything to match on (exclusions alone do not)
+ */
+export function hasPositiveTerms(parsed: ParsedSearchQuery): boolean {
+  return parsed.terms.length > 0 || parsed.phrases.length > 0;
+}
+
+/**
+ * Build the $search string for a MongoDB $text query
+ */
+export function toTextSearch(parsed: ParsedSearchQuery): string {
+  return [
+    ...parsed.phrases.map(phrase => `"${phrase}"`),
+    ...parsed.terms,
+    ...parsed.excludedPhrases.map(phrase => `-"${phrase}"`),
+    ...parsed.excludedTerms.map(term => `-${term}`),
+  ].join(' ');
+}
+
+/**
+ * Build a case-insensitive regex matching any excluded term or phrase as whole words
+ * Used when a query has only exclusions, which $text cannot express.
+ */
+export function buildExclusionRegExp(parsed: ParsedSearchQuery): RegExp | null {
+  const excluded = [...parsed.excludedPhrases, ...parsed.excludedTerms];
+  if (excluded.length === 0) return null;
+  return new RegExp(`(?<!\\w)(${excluded.map(escapeRegExp).join('|')})(?!\\w)`, 'i');
+}
+
+/**
+ * Regex matching the query's phrases and terms at word starts
+ * Terms also match longer words (e.g. "engineer" in "engineering"), roughly
+ * mirroring the stemming the text index applies.
+ */
+function buildHighlightRegExp(parsed: ParsedSearchQuery): RegExp | null {
+  const phrases = parsed.phrases.map(phrase =>
+    phrase.split(' ').map(escapeRegExp).join('\\s+')
+  );
+  const terms = parsed.terms.map(term => `${escapeRegExp(term)}\\w*`);
+  const alternatives = [...phrases, ...terms];
+  if (alternatives.length === 0) return null;
+  return new RegExp(`(?<!\\w)(${alternatives.join('|')})`, 'gi');
+}
+
+/**
+ * Wrap matches in <mark> tags; the rest of the text is HTML-escaped
+ */
+function highlight(text: string, regex: RegExp): string {
+  let result = '';
+  let last = 0;
+  for (const match of text.matchAll(regex)) {
+    const start = match.index ?? 0;
+    result += escapeHtml(text.slice(last, start));
+    result += `<mark>${escapeHtml(match[0])}</mark>`;
+    last = start + match[0].length;
+  }
+  return result + escapeHtml(text.slice(last));
+}
+
+/**
+ * Highlight query matches in a short field (e.g. a job title)
+ * Returns null when nothing matches.
+ */
+export function highlightField(text: string | undefined, parsed: ParsedSearchQuery): string | null {
+  const regex = buildHighlightRegExp(parsed);
+  if (!text || !regex || !regex.test(text)) return null;
+  regex.lastIndex = 0;
+  return highlight(text, regex);
+}
+
+/**
+ * Build a highlighted snippet of long text around the first match
+ * Returns null when nothing matches.
+ */
+export function buildSnippet(
+  text: string | undefined,
+  parsed: ParsedSearchQuery,
+  length = SNIPPET_LENGTH
+): string | null {
+  const regex = buildHighlightRegExp(parsed);
+  if (!text || !regex) return null;
+
+  const first = regex.exec(text);
+  if (!first) return null;
+  regex.lastIndex = 0;
+
+  // Start a little before the first match, at a word boundary
+  let start = Math.max(0, first.index - Math.floor(length / 4));
+  if (start > 0) {
+    const space = text.indexOf(' ', start);
+    start = space !== -1 && space < first.index ? space + 1 : start;
+  }
+
+  let end = Math.min(text.length, start + length);
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end);
+    end = space > first.index + first[0].length ? space : end;
+  }
+
+  const snippet = text.slice(start, end).replace(/\s+/g, ' ');
+  return `${start > 0 ? '…' : ''}${highlight(snippet, regex)}${end < text.length ? '…' : ''}`;
+}